@@ -0,0 +1,153 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { AlertRule, InsertAlertFiring } from "./schema";
+
+// alerts.ts loads storage, which needs a connection string; the storage calls
+// it makes are replaced below, so nothing connects
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { storage } = await import("./storage");
+const { evaluateAlertRule, deliverWebhook, buildAlertPayload } = await import("./alerts");
+
+// Local webhook receiver: /ok records the payload, /hang never answers
+const received: unknown[] = [];
+let server: Server;
+let baseUrl: string;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    if (req.url === '/hang') {
+      return;
+    }
+    received.push(JSON.parse(await readBody(req)));
+    res.writeHead(204).end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+// In-memory stand-ins for the storage calls evaluateAlertRule makes
+function useFakeStorage(cost: number) {
+  const lastFiredAt = new Map<string, Date | null>();
+  const firings: InsertAlertFiring[] = [];
+  Object.assign(storage, {
+    getAlertWindowStats: async () => ({ requests: 10, failures: 0, cost, averageDuration: 250 }),
+    claimAlertRule: async (id: string, firedAt: Date, cooldownStart: Date) => {
+      const previous = lastFiredAt.get(id);
+      if (previous && previous > cooldownStart) {
+        return false;
+      }
+      lastFiredAt.set(id, firedAt);
+      return true;
+    },
+    releaseAlertRule: async (id: string, _firedAt: Date, previous: Date | null) => {
+      lastFiredAt.set(id, previous);
+    },
+    createAlertFiring: async (firing: InsertAlertFiring) => {
+      firings.push(firing);
+      return firing;
+    },
+  });
+  return { firings, lastFiredAt };
+}
+
+function createRule(webhookUrl: string): AlertRule {
+  return {
+    id: 'rule-1',
+    name: 'Spend spike',
+    metric: 'spend',
+    threshold: '5.0000',
+    windowMinutes: 60,
+    type: null,
+    cooldownMinutes: 30,
+    webhookUrl,
+    enabled: true,
+    lastFiredAt: null,
+    createdAt: new Date('2025-06-01T09:00:00Z'),
+  };
+}
+
+// A port nothing is listening on
+async function getUnusedUrl(): Promise<string> {
+  const probe = createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return `http://127.0.0.1:${port}/`;
+}
+
+test("a rule over its threshold posts the alert payload", async () => {
+  received.length = 0;
+  const { firings } = useFakeStorage(7.5);
+  const rule = createRule(`${baseUrl}/ok`);
+  const now = new Date('2025-06-01T10:00:00Z');
+
+  const result = await evaluateAlertRule(rule, now);
+
+  assert.equal(result.status, 'fired');
+  assert.deepEqual(received, [JSON.parse(JSON.stringify(buildAlertPayload(rule, 7.5, now)))]);
+  assert.deepEqual(received[0], {
+    text: 'Spend spike: spend over the last 60 minutes was $7.50, above $5.00',
+    alert: { ruleId: 'rule-1', name: 'Spend spike', metric: 'spend', threshold: 5, value: 7.5, unit: 'USD', windowMinutes: 60, type: null },
+    firedAt: '2025-06-01T10:00:00.000Z',
+  });
+  assert.equal(firings.length, 1);
+  assert.equal(firings[0].delivered, true);
+  assert.equal(firings[0].statusCode, 204);
+});
+
+test("a rule under its threshold or in its cooldown doesn't fire", async () => {
+  received.length = 0;
+  useFakeStorage(2);
+  const rule = createRule(`${baseUrl}/ok`);
+  assert.equal((await evaluateAlertRule(rule, new Date('2025-06-01T10:00:00Z'))).status, 'ok');
+
+  useFakeStorage(7.5);
+  assert.equal((await evaluateAlertRule(rule, new Date('2025-06-01T10:00:00Z'))).status, 'fired');
+  assert.equal((await evaluateAlertRule(rule, new Date('2025-06-01T10:20:00Z'))).status, 'cooldown');
+  assert.equal(received.length, 1);
+
+  // Once the 30 minute cooldown is over it fires again
+  assert.equal((await evaluateAlertRule(rule, new Date('2025-06-01T10:31:00Z'))).status, 'fired');
+  assert.equal(received.length, 2);
+});
+
+test("a receiver that never answers times out", async () => {
+  const rule = createRule(`${baseUrl}/hang`);
+  const payload = buildAlertPayload(rule, 7.5, new Date());
+
+  const delivery = await deliverWebhook(`${baseUrl}/hang`, payload, 200);
+
+  assert.deepEqual(delivery, { delivered: false, statusCode: null, error: 'Webhook timed out' });
+});
+
+test("an unreachable receiver is recorded as undelivered and retried", async () => {
+  const url = await getUnusedUrl();
+  const { firings, lastFiredAt } = useFakeStorage(7.5);
+  const rule = createRule(url);
+
+  const result = await evaluateAlertRule(rule, new Date('2025-06-01T10:00:00Z'));
+
+  assert.equal(result.status, 'undelivered');
+  assert.equal(firings.length, 1);
+  assert.equal(firings[0].delivered, false);
+  assert.equal(firings[0].statusCode, null);
+  assert.ok(firings[0].error);
+  // The claim is released, so the next check isn't held back by the cooldown
+  assert.equal(lastFiredAt.get(rule.id), null);
+});
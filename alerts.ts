@@ -0,0 +1,229 @@
+import { storage, type AlertWindowStats } from "./storage";
+import type { AlertMetric, AlertRule } from "./schema";
+
+// Usage alerts. Every ALERT_CHECK_INTERVAL_SECONDS each enabled rule is checked
+// against the requests in its window (e.g. spend over the last 60 minutes), and
+// a rule over its threshold posts a JSON payload to its webhook, or to
+// ALERT_WEBHOOK_URL. A rule that fired stays quiet for its cooldown, so a
+// sustained spike sends one alert per cooldown rather than one per check.
+// Firings are recorded with the webhook's response.
+
+const DEFAULT_CHECK_INTERVAL_SECONDS = 60;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Spend is in USD, the currency of the price catalogue (pricing.ts), not GBP
+export type AlertUnit = 'USD' | 'percent' | 'ms';
+
+export const ALERT_METRIC_UNITS: Record<AlertMetric, AlertUnit> = {
+  spend: 'USD',
+  error_rate: 'percent',
+  average_duration: 'ms',
+};
+
+export interface AlertPayload {
+  // One-line summary, shown as-is by Slack-compatible receivers
+  text: string;
+  alert: {
+    ruleId: string;
+    name: string;
+    metric: AlertMetric;
+    threshold: number;
+    value: number;
+    // What threshold and value are measured in
+    unit: AlertUnit;
+    windowMinutes: number;
+    type: string | null;
+  };
+  firedAt: string;
+}
+
+export interface WebhookDelivery {
+  delivered: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+export interface AlertCheckResult {
+  ruleId: string;
+  name: string;
+  // Null when the window had no requests to measure
+  value: number | null;
+  status: 'ok' | 'fired' | 'cooldown' | 'undelivered' | 'no-webhook' | 'error';
+}
+
+// The rule's metric over the window, in ALERT_METRIC_UNITS
+export function getMetricValue(metric: AlertMetric, stats: AlertWindowStats): number | null {
+  switch (metric) {
+    case 'spend':
+      return stats.cost;
+    case 'error_rate': {
+      const total = stats.requests + stats.failures;
+      return total > 0 ? (stats.failures / total) * 100 : null;
+    }
+    case 'average_duration':
+      return stats.averageDuration;
+  }
+}
+
+function formatMetric(metric: AlertMetric, value: number): string {
+  switch (metric) {
+    case 'spend':
+      return `$${value.toFixed(2)}`;
+    case 'error_rate':
+      return `${value.toFixed(1)}%`;
+    case 'average_duration':
+      return `${Math.round(value)} ms`;
+  }
+}
+
+function describeAlert(rule: AlertRule, value: number): string {
+  const scope = rule.type ? `${rule.type} ` : '';
+  const label = {
+    spend: `${scope}spend`,
+    error_rate: `${scope}error rate`,
+    average_duration: `average ${scope}response time`,
+  }[rule.metric as AlertMetric];
+  const threshold = parseFloat(rule.threshold);
+  return `${rule.name}: ${label} over the last ${rule.windowMinutes} minutes was ` +
+    `${formatMetric(rule.metric as AlertMetric, value)}, above ${formatMetric(rule.metric as AlertMetric, threshold)}`;
+}
+
+export function buildAlertPayload(rule: AlertRule, value: number, firedAt: Date): AlertPayload {
+  return {
+    text: describeAlert(rule, value),
+    alert: {
+      ruleId: rule.id,
+      name: rule.name,
+      metric: rule.metric as AlertMetric,
+      threshold: parseFloat(rule.threshold),
+      value,
+      unit: ALERT_METRIC_UNITS[rule.metric as AlertMetric],
+      windowMinutes: rule.windowMinutes,
+      type: rule.type,
+    },
+    firedAt: firedAt.toISOString(),
+  };
+}
+
+export function getWebhookUrl(rule: AlertRule): string | undefined {
+  return rule.webhookUrl || process.env.ALERT_WEBHOOK_URL || undefined;
+}
+
+// Any 2xx response counts as delivered
+export async function deliverWebhook(
+  url: string,
+  payload: AlertPayload,
+  timeoutMs: number = WEBHOOK_TIMEOUT_MS
+): Promise<WebhookDelivery> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return {
+      delivered: response.ok,
+      statusCode: response.status,
+      error: response.ok ? null : `Webhook responded with ${response.status}`,
+    };
+  } catch (error: any) {
+    return {
+      delivered: false,
+      statusCode: null,
+      error: error.name === 'TimeoutError' ? 'Webhook timed out' : error.message || 'Webhook request failed',
+    };
+  }
+}
+
+export async function evaluateAlertRule(rule: AlertRule, now: Date = new Date()): Promise<AlertCheckResult> {
+  const result = (value: number | null, status: AlertCheckResult['status']): AlertCheckResult =>
+    ({ ruleId: rule.id, name: rule.name, value, status });
+
+  const since = new Date(now.getTime() - rule.windowMinutes * 60 * 1000);
+  const stats = await storage.getAlertWindowStats(since, rule.type ?? undefined);
+  const value = getMetricValue(rule.metric as AlertMetric, stats);
+  if (value === null || value <= parseFloat(rule.threshold)) {
+    return result(value, 'ok');
+  }
+
+  const url = getWebhookUrl(rule);
+  if (!url) {
+    console.warn(`[Alerts] ${rule.name} is over its threshold but has no webhook URL`);
+    return result(value, 'no-webhook');
+  }
+
+  const cooldownStart = new Date(now.getTime() - rule.cooldownMinutes * 60 * 1000);
+  const previousFiredAt = rule.lastFiredAt;
+  if (!(await storage.claimAlertRule(rule.id, now, cooldownStart))) {
+    return result(value, 'cooldown');
+  }
+
+  const payload = buildAlertPayload(rule, value, now);
+  console.log(`[Alerts] ${payload.text}`);
+  const delivery = await deliverWebhook(url, payload);
+  await storage.createAlertFiring({
+    ruleId: rule.id,
+    firedAt: now,
+    value: value.toFixed(4),
+    threshold: rule.threshold,
+    ...delivery,
+  });
+
+  if (!delivery.delivered) {
+    console.error(`[Alerts] Failed to deliver ${rule.name}: ${delivery.error}`);
+    await storage.releaseAlertRule(rule.id, now, previousFiredAt);
+    return result(value, 'undelivered');
+  }
+  return result(value, 'fired');
+}
+
+export async function checkAlerts(now: Date = new Date()): Promise<AlertCheckResult[]> {
+  const rules = (await storage.getAlertRules()).filter(rule => rule.enabled);
+  const results: AlertCheckResult[] = [];
+  for (const rule of rules) {
+    try {
+      results.push(await evaluateAlertRule(rule, now));
+    } catch (error) {
+      console.error(`[Alerts] Failed to check ${rule.name}:`, error);
+      results.push({ ruleId: rule.id, name: rule.name, value: null, status: 'error' });
+    }
+  }
+  return results;
+}
+
+export function isAlertingEnabled(): boolean {
+  return process.env.ALERTS_ENABLED !== 'false';
+}
+
+let alertTimer: NodeJS.Timeout | null = null;
+
+export function startAlertScheduler(): void {
+  if (alertTimer || !isAlertingEnabled()) {
+    return;
+  }
+
+  const configuredSeconds = parseInt(process.env.ALERT_CHECK_INTERVAL_SECONDS || '', 10);
+  let intervalSeconds = DEFAULT_CHECK_INTERVAL_SECONDS;
+  if (Number.isFinite(configuredSeconds) && configuredSeconds > 0) {
+    intervalSeconds = configuredSeconds;
+  } else if (process.env.ALERT_CHECK_INTERVAL_SECONDS) {
+    console.warn(`[Alerts] Ignoring invalid ALERT_CHECK_INTERVAL_SECONDS "${process.env.ALERT_CHECK_INTERVAL_SECONDS}", checking every ${DEFAULT_CHECK_INTERVAL_SECONDS} seconds`);
+  }
+  let checking = false;
+  alertTimer = setInterval(() => {
+    // A slow check (e.g. a hanging webhook) shouldn't overlap the next one
+    if (checking) {
+      return;
+    }
+    checking = true;
+    checkAlerts()
+      .catch((err: any) => {
+        console.error('Alert check failed:', err);
+      })
+      .finally(() => {
+        checking = false;
+      });
+  }, intervalSeconds * 1000);
+  alertTimer.unref();
+}
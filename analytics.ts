@@ -1,87 +1,280 @@
-import { storage } from "./storage";
-import { type InsertAnalytics } from "./schema";
-
-export const PRICING = {
-  GROQ_LLAMA_3_3_70B: {
-    input: 0.00000059,
-    output: 0.00000079,
-  },
-  OPENAI_GPT_4O: {
-    input: 0.000005,
-    output: 0.000015,
-  },
-  OPENAI_TTS_1: {
-    perCharacter: 0.000015,
-  },
-} as const;
+import { storage, type AnalyticsCostUpdate } from "./storage";
+import { analyticsCursorSchema, type InsertAnalytics, type Analytics, type AnalyticsType, type AnalyticsCursor } from "./schema";
+import { findModelPrice } from "./pricing";
+import { hashIp } from "./privacy";
+import { scrubPII } from "./pii";
+
+export interface CostResult {
+  cost: number;
+  // False when the model has no price in the catalogue; cost is then 0
+  priced: boolean;
+}
+
+function unpriced(model: string): CostResult {
+  console.warn(`[Analytics] No price found for model "${model}"`);
+  return { cost: 0, priced: false };
+}
 
 export function calculateChatCost(
   inputTokens: number,
   outputTokens: number,
-  model: string
-): number {
-  if (model.includes('llama') || model.includes('groq')) {
-    return (
-      inputTokens * PRICING.GROQ_LLAMA_3_3_70B.input +
-      outputTokens * PRICING.GROQ_LLAMA_3_3_70B.output
-    );
+  model: string,
+  cachedTokens: number = 0,
+  at: Date = new Date()
+): CostResult {
+  const price = findModelPrice(model, at);
+  if (!price || price.inputPerToken === undefined || price.outputPerToken === undefined) {
+    return unpriced(model);
   }
-  
-  return (
-    inputTokens * PRICING.OPENAI_GPT_4O.input +
-    outputTokens * PRICING.OPENAI_GPT_4O.output
-  );
+
+  // Cached prompt tokens are included in inputTokens but billed at the cached rate when one exists
+  const cachedRate = price.cachedInputPerToken ?? price.inputPerToken;
+  const uncachedTokens = Math.max(inputTokens - cachedTokens, 0);
+
+  return {
+    cost:
+      uncachedTokens * price.inputPerToken +
+      Math.min(cachedTokens, inputTokens) * cachedRate +
+      outputTokens * price.outputPerToken,
+    priced: true,
+  };
 }
 
-export function calculateTTSCost(characters: number): number {
-  return characters * PRICING.OPENAI_TTS_1.perCharacter;
+export function calculateTTSCost(
+  characters: number,
+  model: string,
+  at: Date = new Date()
+): CostResult {
+  const price = findModelPrice(model, at);
+  if (!price || price.perCharacter === undefined) {
+    return unpriced(model);
+  }
+
+  return { cost: characters * price.perCharacter, priced: true };
 }
 
-export async function trackChatRequest(
-  ipAddress: string,
-  inputTokens: number,
-  outputTokens: number,
+export function calculateMediaCost(
+  seconds: number,
   model: string,
-  duration: number
-): Promise<void> {
-  const cost = calculateChatCost(inputTokens, outputTokens, model);
+  at: Date = new Date()
+): CostResult {
+  const price = findModelPrice(model, at);
+  if (!price || price.perSecond === undefined) {
+    return unpriced(model);
+  }
+
+  return { cost: seconds * price.perSecond, priced: true };
+}
+
+// Cost of an existing analytics record under the current catalogue
+export function calculateRecordCost(record: Analytics): CostResult {
+  if (record.cacheHit) {
+    return { cost: 0, priced: true };
+  }
+
+  if (record.type === 'video' || record.type === 'stt') {
+    return calculateMediaCost(parseFloat(record.audioSeconds || '0'), record.model, record.timestamp);
+  }
+
+  if (record.type === 'tts') {
+    return calculateTTSCost(record.characters || 0, record.model, record.timestamp);
+  }
+
+  return calculateChatCost(
+    record.inputTokens || 0,
+    record.outputTokens || 0,
+    record.model,
+    record.cachedTokens || 0,
+    record.timestamp
+  );
+}
+
+export interface ChatRequestMetrics {
+  // Pre-generated record id, returned to clients as the message id
+  id?: string;
+  ipAddress: string;
+  userId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens?: number;
+  provider: string;
+  model: string;
+  // Prompt version the answer was generated with; null for the built-in prompt
+  promptVersionId?: string | null;
+  variantId?: string | null;
+  duration: number;
+}
+
+export interface TTSRequestMetrics {
+  ipAddress: string;
+  userId?: string;
+  characters: number;
+  provider: string;
+  model: string;
+  duration: number;
+  cacheHit?: boolean;
+  // Characters actually sent to the provider when only part of the text was cached
+  billedCharacters?: number;
+}
+
+export interface VideoRequestMetrics {
+  ipAddress: string;
+  userId?: string;
+  // Length of the generated video, when the worker reports it
+  seconds: number | null;
+  model: string;
+  duration: number;
+}
+
+export interface STTRequestMetrics {
+  ipAddress: string;
+  userId?: string;
+  // Length of the transcribed audio
+  seconds: number;
+  provider: string;
+  model: string;
+  duration: number;
+}
+
+export async function trackChatRequest(metrics: ChatRequestMetrics): Promise<void> {
+  const { cost, priced } = calculateChatCost(
+    metrics.inputTokens,
+    metrics.outputTokens,
+    metrics.model,
+    metrics.cachedTokens
+  );
   
   const record: InsertAnalytics = {
+    id: metrics.id,
     type: 'chat',
-    ipAddress,
-    inputTokens,
-    outputTokens,
+    ipAddress: hashIp(metrics.ipAddress),
+    userId: metrics.userId ?? null,
+    inputTokens: metrics.inputTokens,
+    outputTokens: metrics.outputTokens,
+    cachedTokens: metrics.cachedTokens ?? null,
     characters: null,
-    model,
+    audioSeconds: null,
+    provider: metrics.provider,
+    model: metrics.model,
     cost: cost.toString(),
-    duration,
+    priced,
+    promptVersionId: metrics.promptVersionId ?? null,
+    variantId: metrics.variantId ?? null,
+    duration: metrics.duration,
   };
 
   await storage.createAnalyticsRecord(record);
 }
 
-export async function trackTTSRequest(
-  ipAddress: string,
-  characters: number,
-  model: string,
-  duration: number
-): Promise<void> {
-  const cost = calculateTTSCost(characters);
+export async function trackTTSRequest(metrics: TTSRequestMetrics): Promise<void> {
+  const { cost, priced } = metrics.cacheHit
+    ? { cost: 0, priced: true }
+    : calculateTTSCost(metrics.billedCharacters ?? metrics.characters, metrics.model);
   
   const record: InsertAnalytics = {
     type: 'tts',
-    ipAddress,
+    ipAddress: hashIp(metrics.ipAddress),
+    userId: metrics.userId ?? null,
+    inputTokens: null,
+    outputTokens: null,
+    cachedTokens: null,
+    characters: metrics.characters,
+    audioSeconds: null,
+    provider: metrics.provider,
+    model: metrics.model,
+    cost: cost.toString(),
+    priced,
+    cacheHit: metrics.cacheHit ?? false,
+    duration: metrics.duration,
+  };
+
+  await storage.createAnalyticsRecord(record);
+}
+
+export async function trackVideoRequest(metrics: VideoRequestMetrics): Promise<void> {
+  const { cost, priced } = calculateMediaCost(metrics.seconds || 0, metrics.model);
+
+  const record: InsertAnalytics = {
+    type: 'video',
+    ipAddress: hashIp(metrics.ipAddress),
+    userId: metrics.userId ?? null,
     inputTokens: null,
     outputTokens: null,
-    characters,
-    model,
+    cachedTokens: null,
+    characters: null,
+    audioSeconds: metrics.seconds === null ? null : metrics.seconds.toString(),
+    provider: 'wav2lip',
+    model: metrics.model,
     cost: cost.toString(),
-    duration,
+    priced,
+    duration: metrics.duration,
   };
 
   await storage.createAnalyticsRecord(record);
 }
 
-export function estimateTokenCount(text: string): number {
-  return Math.ceil(text.length / 4);
+export async function trackSTTRequest(metrics: STTRequestMetrics): Promise<void> {
+  const { cost, priced } = calculateMediaCost(metrics.seconds, metrics.model);
+
+  const record: InsertAnalytics = {
+    type: 'stt',
+    ipAddress: hashIp(metrics.ipAddress),
+    userId: metrics.userId ?? null,
+    inputTokens: null,
+    outputTokens: null,
+    cachedTokens: null,
+    characters: null,
+    audioSeconds: metrics.seconds.toString(),
+    provider: metrics.provider,
+    model: metrics.model,
+    cost: cost.toString(),
+    priced,
+    duration: metrics.duration,
+  };
+
+  await storage.createAnalyticsRecord(record);
+}
+
+// Requests that ended in a server or provider error, for error-rate alerts
+export async function trackFailedRequest(type: AnalyticsType, error: any): Promise<void> {
+  const message = error?.message || String(error);
+  await storage.createRequestFailure({ type, error: scrubPII(message).slice(0, 500) });
+}
+
+export interface RecomputeResult {
+  scanned: number;
+  updated: number;
+  unpriced: number;
+}
+
+const RECOMPUTE_PAGE_SIZE = 1000;
+
+// Re-prices stored records after a catalogue correction, a page at a time so
+// any range fits in memory
+export async function recomputeAnalyticsCosts(startDate: Date = new Date(0), endDate: Date = new Date()): Promise<RecomputeResult> {
+  const result: RecomputeResult = { scanned: 0, updated: 0, unpriced: 0 };
+
+  let cursor: AnalyticsCursor | undefined;
+  do {
+    const page = await storage.getAnalyticsPage(startDate, endDate, { limit: RECOMPUTE_PAGE_SIZE, cursor, ascending: true });
+    const updates: AnalyticsCostUpdate[] = [];
+    for (const record of page.records) {
+      const { cost, priced } = calculateRecordCost(record);
+      if (!priced) {
+        result.unpriced++;
+      }
+
+      // cost is stored with 6 decimal places
+      if (cost.toFixed(6) !== parseFloat(record.cost).toFixed(6) || priced !== record.priced) {
+        updates.push({ id: record.id, cost: cost.toString(), priced });
+      }
+    }
+
+    await storage.updateAnalyticsCosts(updates);
+    result.scanned += page.records.length;
+    result.updated += updates.length;
+    cursor = page.nextCursor ? analyticsCursorSchema.parse(page.nextCursor) : undefined;
+  } while (cursor);
+
+  return result;
 }
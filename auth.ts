@@ -0,0 +1,202 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { type User } from "./schema";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+    // Set after a successful admin password check
+    isAdmin: boolean;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type PublicUser = Omit<User, "password">;
+
+// Stored as "scrypt$<salt>$<hash>" so the algorithm can change later
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hashHex] = stored.split("$");
+  if (algorithm !== "scrypt" || !salt || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Hash of a random password, used to keep login timing the same for unknown usernames
+let dummyHash: Promise<string> | null = null;
+export function getDummyPasswordHash(): Promise<string> {
+  if (!dummyHash) {
+    dummyHash = hashPassword(randomBytes(16).toString("hex"));
+  }
+  return dummyHash;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function setupAuth(app: Express): void {
+  const isProduction = process.env.NODE_ENV === "production";
+  const sessionSecret = process.env.SESSION_SECRET;
+
+  if (!sessionSecret && isProduction) {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+
+  const PgStore = connectPg(session);
+
+  // Cookies must survive cross-site requests from the frontend domains, which
+  // browsers only allow for SameSite=None cookies sent over HTTPS
+  app.set("trust proxy", 1);
+  app.use(session({
+    // connect-pg-simple wants a node-postgres pool, not the Neon one in db.ts,
+    // so it opens its own from the same connection string
+    store: new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "sessions",
+    }),
+    secret: sessionSecret || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isProduction ? "none" : "lax",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId) {
+    return res.status(401).json({
+      error: "Authentication required",
+      success: false
+    });
+  }
+  next();
+}
+
+export function getSessionUserId(req: Request): string | undefined {
+  return req.session?.userId;
+}
+
+// Admin password lockout: too many failures from one IP blocks further attempts for a while
+const MAX_ADMIN_ATTEMPTS = 5;
+const ADMIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+interface FailedAttempts {
+  count: number;
+  windowStart: number;
+  lockedUntil: number;
+}
+
+const failedAdminAttempts: Map<string, FailedAttempts> = new Map();
+
+setInterval(() => {
+  const now = Date.now();
+  const entries = Array.from(failedAdminAttempts.entries());
+  for (const [key, entry] of entries) {
+    if (entry.lockedUntil < now && entry.windowStart + ADMIN_LOCKOUT_MS < now) {
+      failedAdminAttempts.delete(key);
+    }
+  }
+}, 60000);
+
+export function assertAdminSecretConfigured(): void {
+  if (!process.env.ADMIN_PASSWORD) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("ADMIN_PASSWORD must be set in production.");
+    }
+    console.warn("ADMIN_PASSWORD is not set - admin password login is disabled");
+  }
+}
+
+export function getAdminLockout(identifier: string): number | undefined {
+  const entry = failedAdminAttempts.get(identifier);
+  if (entry && entry.lockedUntil > Date.now()) {
+    return entry.lockedUntil;
+  }
+  return undefined;
+}
+
+export function recordFailedAdminAttempt(identifier: string): void {
+  const now = Date.now();
+  const entry = failedAdminAttempts.get(identifier);
+
+  if (!entry || entry.windowStart + ADMIN_LOCKOUT_MS < now) {
+    failedAdminAttempts.set(identifier, { count: 1, windowStart: now, lockedUntil: 0 });
+    return;
+  }
+
+  entry.count++;
+  if (entry.count >= MAX_ADMIN_ATTEMPTS) {
+    entry.lockedUntil = now + ADMIN_LOCKOUT_MS;
+    entry.windowStart = now;
+    entry.count = 0;
+    console.warn(`[Auth] Admin login locked for ${identifier} after ${MAX_ADMIN_ATTEMPTS} failed attempts`);
+  }
+}
+
+export function clearFailedAdminAttempts(identifier: string): void {
+  failedAdminAttempts.delete(identifier);
+}
+
+// Compares digests so neither the content nor the length of the secret leaks through timing
+export function verifyAdminPassword(password: string): boolean {
+  const adminPassword = process.env.ADMIN_PASSWORD;
+  if (!adminPassword) {
+    return false;
+  }
+
+  const expected = createHash("sha256").update(adminPassword).digest();
+  const actual = createHash("sha256").update(password).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+export async function isAdminRequest(req: Request): Promise<boolean> {
+  if (req.session?.isAdmin) {
+    return true;
+  }
+
+  const userId = req.session?.userId;
+  if (!userId) {
+    return false;
+  }
+
+  const user = await storage.getUser(userId);
+  return user?.role === "admin";
+}
+
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (await isAdminRequest(req)) {
+      return next();
+    }
+
+    res.status(req.session?.userId ? 403 : 401).json({
+      error: "Admin authorization required",
+      success: false
+    });
+  } catch (error) {
+    next(error);
+  }
+}
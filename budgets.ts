@@ -0,0 +1,144 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import {
+  BUDGET_ALL_SUBJECTS,
+  budgetPeriods,
+  type Budget,
+  type BudgetPeriod,
+  type BudgetScope,
+} from "./schema";
+import { hashIp } from "./privacy";
+
+// Spend budgets enforced against the costs recorded in the analytics table.
+// Each scope/period can have a default limit (subject '*') and per-subject
+// overrides; an override replaces the default for that IP or user.
+
+const BUDGET_CACHE_MS = 30000;
+
+let cachedBudgets: { budgets: Budget[]; loadedAt: number } | null = null;
+
+async function loadBudgets(): Promise<Budget[]> {
+  if (!cachedBudgets || cachedBudgets.loadedAt + BUDGET_CACHE_MS < Date.now()) {
+    cachedBudgets = { budgets: await storage.getBudgets(), loadedAt: Date.now() };
+  }
+  return cachedBudgets.budgets;
+}
+
+export function invalidateBudgetCache(): void {
+  cachedBudgets = null;
+}
+
+// Periods are calendar-aligned in UTC
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  if (period === 'day') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function getPeriodEnd(period: BudgetPeriod, now: Date = new Date()): Date {
+  if (period === 'day') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  }
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function findLimit(
+  budgets: Budget[],
+  scope: BudgetScope,
+  period: BudgetPeriod,
+  subject: string
+): Budget | undefined {
+  return budgets.find(b => b.scope === scope && b.period === period && b.subject === subject)
+    || budgets.find(b => b.scope === scope && b.period === period && b.subject === BUDGET_ALL_SUBJECTS);
+}
+
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  resetsAt: Date;
+}
+
+export async function checkBudget(ipAddress: string, userId?: string): Promise<BudgetExceeded | undefined> {
+  const budgets = await loadBudgets();
+  if (budgets.length === 0) {
+    return undefined;
+  }
+
+  for (const period of budgetPeriods) {
+    const since = getPeriodStart(period);
+    const checks: { scope: BudgetScope; subject: string; filter: { ipAddress?: string; userId?: string } }[] = [
+      { scope: 'global', subject: BUDGET_ALL_SUBJECTS, filter: {} },
+      // Budgets name the raw IP; analytics only hold its hash
+      { scope: 'ip', subject: ipAddress, filter: { ipAddress: hashIp(ipAddress) } },
+    ];
+    if (userId) {
+      checks.push({ scope: 'user', subject: userId, filter: { userId } });
+    }
+
+    for (const check of checks) {
+      const budget = findLimit(budgets, check.scope, period, check.subject);
+      if (!budget) {
+        continue;
+      }
+
+      const limitUsd = parseFloat(budget.limitUsd);
+      const spentUsd = await storage.getSpend(since, check.filter);
+      if (spentUsd >= limitUsd) {
+        return { scope: check.scope, period, limitUsd, spentUsd, resetsAt: getPeriodEnd(period) };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Rejects the request before any paid provider call once a budget is used up
+export async function enforceBudget(req: Request, res: Response, next: NextFunction) {
+  try {
+    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+    const exceeded = await checkBudget(clientIp, req.session?.userId);
+
+    if (!exceeded) {
+      return next();
+    }
+
+    console.log(`[Budgets] ${exceeded.scope} ${exceeded.period} budget exceeded for`, clientIp);
+    const retryAfterSeconds = Math.ceil((exceeded.resetsAt.getTime() - Date.now()) / 1000);
+    res.setHeader('Retry-After', retryAfterSeconds);
+    res.status(402).json({
+      error: exceeded.scope === 'global'
+        ? 'The service has reached its usage budget. Please try again later.'
+        : `You have reached your ${exceeded.period === 'day' ? 'daily' : 'monthly'} usage limit. Please try again after ${exceeded.resetsAt.toLocaleString()}.`,
+      success: false,
+      budget: exceeded,
+      retryAfter: exceeded.resetsAt.getTime()
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export interface BudgetStatus extends Budget {
+  // Current spend; omitted for per-IP/per-user defaults, which apply to each subject separately
+  spentUsd?: number;
+}
+
+export async function getBudgetStatuses(): Promise<BudgetStatus[]> {
+  const budgets = await storage.getBudgets();
+  return Promise.all(budgets.map(async budget => {
+    const period = budget.period as BudgetPeriod;
+    const since = getPeriodStart(period);
+
+    if (budget.scope === 'global') {
+      return { ...budget, spentUsd: await storage.getSpend(since) };
+    }
+    if (budget.subject !== BUDGET_ALL_SUBJECTS) {
+      const filter = budget.scope === 'ip' ? { ipAddress: hashIp(budget.subject) } : { userId: budget.subject };
+      return { ...budget, spentUsd: await storage.getSpend(since, filter) };
+    }
+    return budget;
+  }));
+}
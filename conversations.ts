@@ -0,0 +1,37 @@
+import { storage } from "./storage";
+import { type ChatMessage, type Conversation } from "./schema";
+import { scrubPII } from "./pii";
+
+// Only the most recent turns are sent to the model to keep prompts bounded
+export const MAX_HISTORY_MESSAGES = 20;
+
+export async function getOwnedConversation(
+  conversationId: string,
+  ownerId: string
+): Promise<Conversation | undefined> {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation || conversation.ownerId !== ownerId) {
+    return undefined;
+  }
+  return conversation;
+}
+
+export async function loadConversationHistory(conversationId: string): Promise<ChatMessage[]> {
+  const history = await storage.getMessages(conversationId, MAX_HISTORY_MESSAGES);
+  return history.map(m => ({
+    role: m.role as ChatMessage['role'],
+    content: m.content,
+  }));
+}
+
+// Identifiers are scrubbed before messages are stored
+export async function saveExchange(
+  conversationId: string,
+  userMessage: string,
+  assistantMessage: string,
+  answerId?: string
+): Promise<void> {
+  await storage.addMessage({ conversationId, role: 'user', content: scrubPII(userMessage), answerId });
+  await storage.addMessage({ conversationId, role: 'assistant', content: scrubPII(assistantMessage), answerId });
+  await storage.touchConversation(conversationId);
+}
@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { storage, type ExperimentWithVariants } from "./storage";
+import { resolvePrompt, type ResolvedPrompt } from "./prompts";
+import { parseProviderModel } from "./providers";
+import type { ChatOptions } from "./openai";
+import type { ExperimentVariant } from "./schema";
+
+// Prompt/model A/B tests. While an experiment is running for a persona, each
+// chat is assigned one of its variants, which can override the prompt version,
+// the provider/model and the temperature. Assignment hashes the experiment id
+// with the user (or client IP), so people see the same variant every time.
+// Answers are tracked with their variant id for the per-variant report.
+
+// Running experiments are cached briefly so chats don't hit the database each time
+const CACHE_TTL_MS = 30000;
+
+interface RunningExperiment {
+  experiment: ExperimentWithVariants;
+  // Prompts for variants that override the persona's live prompt
+  prompts: Map<string, ResolvedPrompt>;
+}
+
+export interface AssignedVariant {
+  experimentId: string;
+  id: string;
+  name: string;
+}
+
+export interface ChatSetup {
+  prompt: ResolvedPrompt;
+  options: Pick<ChatOptions, 'systemPrompt' | 'provider' | 'temperature'>;
+  variant: AssignedVariant | null;
+}
+
+const cache: Map<string, { running: RunningExperiment | null; expiresAt: number }> = new Map();
+
+export function invalidateExperimentCache(): void {
+  cache.clear();
+}
+
+async function getRunningExperiment(persona: string): Promise<RunningExperiment | null> {
+  const cached = cache.get(persona);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.running;
+  }
+
+  const experiment = await storage.getRunningExperiment(persona);
+  let running: RunningExperiment | null = null;
+  if (experiment && experiment.variants.length > 0) {
+    const prompts = new Map<string, ResolvedPrompt>();
+    for (const variant of experiment.variants) {
+      if (!variant.promptVersionId) {
+        continue;
+      }
+      const prompt = await storage.getPrompt(variant.promptVersionId);
+      if (prompt && prompt.persona === persona) {
+        prompts.set(variant.id, { persona, promptVersionId: prompt.id, version: prompt.version, content: prompt.content });
+      } else {
+        // Creation and prompt deletion both guard against this, so it means the data was changed by hand
+        console.warn(`[Experiments] Variant "${variant.name}" of "${experiment.name}" has no ${persona} prompt ${variant.promptVersionId}; using the live prompt`);
+      }
+    }
+    running = { experiment, prompts };
+  }
+
+  cache.set(persona, { running, expiresAt: Date.now() + CACHE_TTL_MS });
+  return running;
+}
+
+// Who a chat is assigned for: the logged-in user, otherwise the client IP
+export function getAssignmentSubject(userId: string | undefined, clientIp: string): string {
+  return userId ? `user:${userId}` : `ip:${clientIp}`;
+}
+
+// Weighted pick that is stable for a given experiment and subject
+export function assignVariant(experimentId: string, variants: ExperimentVariant[], subject: string): ExperimentVariant {
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+  const hash = createHash('sha256').update(`${experimentId}:${subject}`).digest();
+  let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) {
+      return variant;
+    }
+  }
+  return variants[variants.length - 1];
+}
+
+// The prompt and model settings for a chat, after any experiment assignment.
+// Returns null when the persona doesn't exist.
+export async function resolveChatSetup(persona: string, subject: string): Promise<ChatSetup | null> {
+  const prompt = await resolvePrompt(persona);
+  if (!prompt) {
+    return null;
+  }
+
+  const running = await getRunningExperiment(persona);
+  if (!running) {
+    return { prompt, options: { systemPrompt: prompt.content }, variant: null };
+  }
+
+  const { experiment, prompts } = running;
+  const variant = assignVariant(experiment.id, experiment.variants, subject);
+  const variantPrompt = prompts.get(variant.id) ?? prompt;
+
+  let provider: ChatOptions['provider'];
+  if (variant.model) {
+    try {
+      provider = parseProviderModel(variant.model);
+    } catch (error) {
+      // Validated on creation, so only reachable if providers change afterwards
+      console.error(`Experiment ${experiment.id} variant ${variant.name} has an invalid model:`, error);
+    }
+  }
+
+  return {
+    prompt: variantPrompt,
+    options: {
+      systemPrompt: variantPrompt.content,
+      provider,
+      temperature: variant.temperature !== null ? parseFloat(variant.temperature) : undefined,
+    },
+    variant: { experimentId: experiment.id, id: variant.id, name: variant.name },
+  };
+}
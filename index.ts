@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { setupAuth, assertAdminSecretConfigured } from "./auth";
+import { resumeVideoJobs } from "./wav2lip";
+import { scrubPII } from "./pii";
+import { assertIpHashSaltConfigured, startRetentionJob } from "./privacy";
+import { startAlertScheduler } from "./alerts";
 
 const app = express();
 
@@ -33,7 +38,8 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-None-Match', 'X-Persona'],
+  exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'ETag', 'X-Cache'],
 }));
 
 declare module 'http' {
@@ -49,6 +55,10 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ extended: false }));
 
+assertAdminSecretConfigured();
+assertIpHashSaltConfigured();
+setupAuth(app);
+
 // Request logging middleware
 app.use((req, res, next) => {
   const start = Date.now();
@@ -66,7 +76,8 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        // Responses echo user text, which may contain NI numbers, UTRs and the like
+        logLine += ` :: ${scrubPII(JSON.stringify(capturedJsonResponse))}`;
       }
 
       if (logLine.length > 80) {
@@ -105,5 +116,11 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     console.log(`🚀 Backend API server running on port ${port}`);
+
+    resumeVideoJobs().catch((err: any) => {
+      console.error('Failed to resume video jobs:', err);
+    });
+    startRetentionJob();
+    startAlertScheduler();
   });
 })();
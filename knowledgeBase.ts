@@ -0,0 +1,295 @@
+import { storage, type KnowledgePassage } from "./storage";
+import { type InsertKnowledgeChunk, type KnowledgeDocument, type KnowledgeDocumentFormat } from "./schema";
+
+// Knowledge base of HMRC / UK tax guidance used to ground chat answers.
+//
+// Admins ingest markdown, HTML or plain text; documents are converted to text and
+// split into passages under their nearest heading. Retrieval is BM25 over an
+// in-memory index built from the stored passages, so no embedding provider is
+// needed. The index is rebuilt after changes and every few minutes so other
+// instances pick up new documents.
+
+const CHUNK_MAX_CHARS = 1200;
+const INDEX_TTL_MS = 5 * 60000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Passages scoring below this fraction of the best match are dropped as noise
+const RELATIVE_SCORE_CUTOFF = 0.3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so',
+  'that', 'the', 'their', 'there', 'this', 'to', 'was', 'what', 'when', 'which', 'who', 'will',
+  'with', 'you', 'your',
+]);
+
+export interface RetrievedPassage extends KnowledgePassage {
+  score: number;
+}
+
+export interface Citation {
+  // Matches the [n] marker used in the answer
+  index: number;
+  title: string;
+  url: string | null;
+  heading: string | null;
+}
+
+export function isKnowledgeBaseEnabled(): boolean {
+  return process.env.KNOWLEDGE_BASE_ENABLED !== 'false';
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', pound: '£', euro: '€', ndash: '–', mdash: '—',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// HTML is reduced to markdown-style text so headings survive for chunking
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|nav|header|footer)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_m, level: string, inner: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').trim()}\n\n`)
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<(br|\/p|\/div|\/tr|\/table|\/ul|\/ol|\/section|\/article)[^>]*>/gi, '\n\n')
+      .replace(/<\/t[dh]>/gi, ' | ')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`)/g, '');
+}
+
+export function toPlainText(content: string, format: KnowledgeDocumentFormat): string {
+  const text = format === 'html' ? htmlToText(content) : format === 'markdown' ? stripMarkdown(content) : content;
+  return text.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function splitLongParagraph(paragraph: string): string[] {
+  const segmenter = new Intl.Segmenter('en-GB', { granularity: 'sentence' });
+  const parts: string[] = [];
+  let current = '';
+
+  for (const { segment } of segmenter.segment(paragraph)) {
+    if (current && (current + segment).length > CHUNK_MAX_CHARS) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += segment;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+// Splits text into passages of whole paragraphs, starting a new passage at each heading
+export function chunkText(text: string): InsertKnowledgeChunk[] {
+  const chunks: InsertKnowledgeChunk[] = [];
+  let heading: string | null = null;
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push({ position: chunks.length, heading, content: current.trim() });
+    }
+    current = '';
+  };
+
+  for (let block of text.split(/\n\s*\n/)) {
+    const headingMatch = block.trim().match(/^#{1,6}\s+(.+)(?:\n|$)/);
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1].trim();
+      // Text directly under the heading, without a blank line between
+      block = block.trim().slice(headingMatch[0].length);
+      if (!block.trim()) {
+        continue;
+      }
+    }
+
+    for (const paragraph of block.length > CHUNK_MAX_CHARS ? splitLongParagraph(block) : [block]) {
+      if (current && (current + '\n\n' + paragraph).length > CHUNK_MAX_CHARS) {
+        flush();
+      }
+      current += (current ? '\n\n' : '') + paragraph;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+function tokenize(text: string): string[] {
+  // Keeps figures such as 12,570 and 20.5 together
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.,][0-9]+)*/g) || [])
+    .filter(token => !STOP_WORDS.has(token));
+}
+
+interface IndexedPassage {
+  passage: KnowledgePassage;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+class BM25Index {
+  private documentFrequencies: Map<string, number> = new Map();
+  private averageLength = 0;
+  private entries: IndexedPassage[];
+
+  constructor(passages: KnowledgePassage[]) {
+    this.entries = passages.map(passage => {
+      // Title and heading are indexed with the body so passages match on topic
+      const tokens = tokenize(`${passage.title} ${passage.heading ?? ''} ${passage.content}`);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+      }
+      return { passage, termFrequencies, length: tokens.length };
+    });
+
+    for (const entry of this.entries) {
+      for (const term of Array.from(entry.termFrequencies.keys())) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+    }
+    this.averageLength = this.entries.reduce((sum, e) => sum + e.length, 0) / (this.entries.length || 1);
+  }
+
+  search(query: string, limit: number): RetrievedPassage[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = this.entries.length;
+
+    const scored = this.entries.map(entry => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = entry.termFrequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + B * entry.length / this.averageLength));
+      }
+      return { ...entry.passage, score };
+    });
+
+    const ranked = scored.filter(p => p.score > 0).sort((a, b) => b.score - a.score);
+    const cutoff = (ranked[0]?.score || 0) * RELATIVE_SCORE_CUTOFF;
+    return ranked.filter(p => p.score >= cutoff).slice(0, limit);
+  }
+}
+
+let index: BM25Index | null = null;
+let indexBuiltAt = 0;
+let indexBuilding: Promise<BM25Index> | null = null;
+
+function invalidateIndex(): void {
+  index = null;
+}
+
+async function getIndex(): Promise<BM25Index> {
+  if (index && Date.now() - indexBuiltAt < INDEX_TTL_MS) {
+    return index;
+  }
+  if (!indexBuilding) {
+    indexBuilding = storage.getKnowledgePassages()
+      .then(passages => {
+        index = new BM25Index(passages);
+        indexBuiltAt = Date.now();
+        return index;
+      })
+      .finally(() => {
+        indexBuilding = null;
+      });
+  }
+  return indexBuilding;
+}
+
+export async function searchKnowledgeBase(
+  query: string,
+  limit: number = parseInt(process.env.KNOWLEDGE_TOP_K || '4', 10)
+): Promise<RetrievedPassage[]> {
+  return (await getIndex()).search(query, limit);
+}
+
+// Passages to ground an answer in. Retrieval problems shouldn't stop the chat
+// from answering, so they are logged and treated as "nothing relevant".
+export async function retrieveKnowledge(query: string): Promise<RetrievedPassage[]> {
+  if (!isKnowledgeBaseEnabled()) {
+    return [];
+  }
+  try {
+    return await searchKnowledgeBase(query);
+  } catch (error) {
+    console.error('Knowledge base retrieval failed:', error);
+    return [];
+  }
+}
+
+export async function ingestKnowledgeDocument(input: {
+  title: string;
+  url?: string;
+  format: KnowledgeDocumentFormat;
+  content: string;
+}): Promise<{ document: KnowledgeDocument; chunks: number }> {
+  const chunks = chunkText(toPlainText(input.content, input.format));
+  if (chunks.length === 0) {
+    throw new Error('Document has no text content');
+  }
+
+  const document = await storage.createKnowledgeDocument({
+    title: input.title,
+    url: input.url ?? null,
+    format: input.format,
+    content: input.content,
+  }, chunks);
+
+  invalidateIndex();
+  return { document, chunks: chunks.length };
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<boolean> {
+  const deleted = await storage.deleteKnowledgeDocument(id);
+  if (deleted) {
+    invalidateIndex();
+  }
+  return deleted;
+}
+
+// Sources for an answer: those the model cited with [n] markers, or every
+// passage it was given if it didn't cite any
+export function getCitations(passages: KnowledgePassage[], answer: string): Citation[] {
+  const all = passages.map((passage, i) => ({
+    index: i + 1,
+    title: passage.title,
+    url: passage.url,
+    heading: passage.heading,
+  }));
+
+  const cited = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => Number(match[1])));
+  const referenced = all.filter(citation => cited.has(citation.index));
+  return referenced.length > 0 ? referenced : all;
+}
@@ -0,0 +1,406 @@
+import OpenAI from "openai";
+import { storage } from "./storage";
+import type { ModerationAction, ModerationStage } from "./schema";
+import { scrubPII } from "./pii";
+import { hashIp } from "./privacy";
+
+// Guardrails around the chat model. User messages are checked before they
+// reach the model (input) and answers before they reach the user (output).
+//
+// Each check is a rule: the built-in ones below are pattern based, and a
+// moderation model can be plugged in as another rule. A rule can refuse the
+// message outright, redact parts of an answer, or require the FCA-style
+// disclaimer. Every intervention is logged with the rule and a reason.
+//
+// createModerationPipeline takes its rules, model and logger as arguments so it
+// can be exercised with a fake provider; the app uses the default pipeline.
+
+export interface ModerationFinding {
+  action: ModerationAction;
+  reason: string;
+  // Text to cut out of the answer, for redactions
+  redact?: string[];
+}
+
+export interface ModerationRule {
+  name: string;
+  stage: ModerationStage;
+  check(text: string): ModerationFinding | null | Promise<ModerationFinding | null>;
+}
+
+export interface ModerationModelResult {
+  flagged: boolean;
+  categories: string[];
+}
+
+export interface ModerationProvider {
+  name: string;
+  moderate(text: string): Promise<ModerationModelResult>;
+}
+
+export interface ModerationIntervention {
+  stage: ModerationStage;
+  rule: string;
+  action: ModerationAction;
+  reason: string;
+}
+
+export interface ModerationContext {
+  ipAddress: string;
+  userId?: string;
+  messageId?: string;
+}
+
+export interface ModerationResult {
+  // False when the message was refused; content is then the refusal to show
+  allowed: boolean;
+  content: string;
+  interventions: ModerationIntervention[];
+}
+
+export interface ModerationPipeline {
+  check(stage: ModerationStage, text: string, context: ModerationContext): Promise<ModerationResult>;
+  // Runs the stage's rules on part of a message, without logging
+  screen(stage: ModerationStage, text: string): Promise<ModerationFinding[]>;
+}
+
+export const INPUT_REFUSAL =
+  "I can't help with that request. I can answer questions about UK personal finance, tax, pensions and budgeting.";
+export const OUTPUT_REFUSAL =
+  "I'm sorry, I can't give that answer. Please rephrase your question, or speak to an FCA-authorised financial adviser.";
+export const DEFAULT_DISCLAIMER =
+  'This is general information, not regulated financial advice. For a personal recommendation, speak to an ' +
+  'FCA-authorised financial adviser. The value of investments can go down as well as up.';
+
+const REDACTION_MARKER = '[removed: personal investment recommendation]';
+
+function sentencesOf(text: string): string[] {
+  const segmenter = new Intl.Segmenter('en-GB', { granularity: 'sentence' });
+  return Array.from(segmenter.segment(text), ({ segment }) => segment.trim()).filter(Boolean);
+}
+
+function patternRule(
+  name: string,
+  stage: ModerationStage,
+  action: ModerationAction,
+  reason: string,
+  patterns: RegExp[]
+): ModerationRule {
+  return {
+    name,
+    stage,
+    check: (text) => patterns.some(pattern => pattern.test(text)) ? { action, reason } : null,
+  };
+}
+
+const FINANCE_TERMS =
+  /\b(tax|hmrc|vat|pension|isa|mortgage|invest\w*|saving\w*|budget\w*|salary|income|debt|loan|credit|money|benefit|allowance|inheritance|dividend|payroll|self[- ]assessment)\b|£/i;
+
+const promptInjectionRule = patternRule(
+  'prompt-injection',
+  'input',
+  'refuse',
+  'Attempt to override the assistant instructions',
+  [
+    /\b(ignore|disregard|forget|override)\b[^.?!\n]{0,40}\b(previous|prior|above|earlier|your|all|system)\b[^.?!\n]{0,20}\b(instructions?|prompts?|rules|guidelines)\b/i,
+    /\b(reveal|show|print|repeat|output|tell me)\b[^.?!\n]{0,30}\b(system|hidden|initial|original)\s+(prompt|instructions?|message)\b/i,
+    /\b(you are now|from now on,? you are|pretend (to be|you are)|act as)\b[^.?!\n]{0,40}\b(DAN|jailbr(oken|eak)|unfiltered|unrestricted|without (any )?(rules|restrictions|limits))\b/i,
+    /\b(developer|god|jailbreak|DAN) mode\b/i,
+  ]
+);
+
+// Using the advisor as a general-purpose writing or coding assistant
+const offTopicRule: ModerationRule = {
+  name: 'off-topic',
+  stage: 'input',
+  check(text) {
+    const creativeRequest =
+      /\b(write|generate|compose|create)\b[^.?!\n]{0,30}\b(poem|essay|story|song|lyrics|code|script|program|function|app|website)\b/i;
+    return creativeRequest.test(text) && !FINANCE_TERMS.test(text)
+      ? { action: 'refuse', reason: 'Request unrelated to personal finance' }
+      : null;
+  },
+};
+
+// Telling the user to buy or sell a specific investment is regulated advice
+const specificRecommendationRule: ModerationRule = {
+  name: 'investment-recommendation',
+  stage: 'output',
+  check(text) {
+    const recommendation =
+      /\b(you should|I('d| would)? (recommend|suggest|advise)|my (recommendation|advice) (is|would be)|the best (option|choice) for you is)\b[^.!?\n]{0,80}\b(buy|sell|invest(ing)? (in|into)|put(ting)? (your )?(money|savings|pension) (in|into)|purchase|switch to)\b[^.!?\n]{0,80}\b(shares?|stocks?|funds?|ETFs?|bonds?|gilts?|crypto(currency|currencies)?|bitcoin|investment trusts?)\b/i;
+    const matches = sentencesOf(text).filter(sentence => recommendation.test(sentence));
+    return matches.length > 0
+      ? { action: 'redact', reason: 'Specific investment recommendation', redact: matches }
+      : null;
+  },
+};
+
+const guaranteedReturnsRule = patternRule(
+  'guaranteed-returns',
+  'output',
+  'disclaimer',
+  'Claims of guaranteed or risk-free returns',
+  [/\b(guaranteed|risk[- ]free|can'?t lose|no risk)\b[^.!?\n]{0,40}\b(returns?|profits?|gains?|growth|income)\b/i]
+);
+
+const investmentTopicRule = patternRule(
+  'investment-topic',
+  'output',
+  'disclaimer',
+  'Answer discusses investments',
+  [/\b(invest(ing|ment|ments|or|ors)?|shares|stocks|equities|(index|tracker|mutual|investment) funds?|ETFs?|bonds|gilts|SIPPs?|stocks and shares ISAs?|annuit(y|ies)|crypto(currency|currencies)?)\b/i]
+);
+
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+  promptInjectionRule,
+  offTopicRule,
+  specificRecommendationRule,
+  guaranteedReturnsRule,
+  investmentTopicRule,
+];
+
+// Wraps a moderation model as a rule. Model outages shouldn't stop chats, so a
+// failed check is logged and treated as a pass.
+export function createModelRule(provider: ModerationProvider, stage: ModerationStage): ModerationRule {
+  return {
+    name: `model:${provider.name}`,
+    stage,
+    async check(text) {
+      try {
+        const result = await provider.moderate(scrubPII(text));
+        return result.flagged
+          ? { action: 'refuse', reason: `Flagged by ${provider.name}: ${result.categories.join(', ') || 'unspecified'}` }
+          : null;
+      } catch (error) {
+        console.error(`Moderation model ${provider.name} failed:`, error);
+        return null;
+      }
+    },
+  };
+}
+
+export function createOpenAIModerationProvider(apiKey: string, model = 'omni-moderation-latest'): ModerationProvider {
+  const client = new OpenAI({ apiKey, timeout: 10000, maxRetries: 1 });
+  return {
+    name: 'openai',
+    async moderate(text) {
+      const response = await client.moderations.create({ model, input: text });
+      const result = response.results[0];
+      return {
+        flagged: result.flagged,
+        categories: Object.entries(result.categories)
+          .filter(([, flagged]) => flagged)
+          .map(([category]) => category),
+      };
+    },
+  };
+}
+
+export type ModerationLogger = (interventions: ModerationIntervention[], context: ModerationContext) => void;
+
+function logToStorage(interventions: ModerationIntervention[], context: ModerationContext): void {
+  for (const intervention of interventions) {
+    console.log(`[Moderation] ${intervention.stage} ${intervention.action} by ${intervention.rule}: ${intervention.reason}`);
+  }
+  storage.createModerationEvents(interventions.map(intervention => ({
+    ...intervention,
+    messageId: context.messageId ?? null,
+    userId: context.userId ?? null,
+    ipAddress: hashIp(context.ipAddress),
+  }))).catch((err: any) => {
+    console.error('Failed to log moderation events:', err);
+  });
+}
+
+export function createModerationPipeline(options: {
+  rules?: ModerationRule[];
+  provider?: ModerationProvider;
+  disclaimer?: string;
+  log?: ModerationLogger;
+} = {}): ModerationPipeline {
+  const {
+    rules = DEFAULT_MODERATION_RULES,
+    provider,
+    disclaimer = DEFAULT_DISCLAIMER,
+    log = logToStorage,
+  } = options;
+  const allRules = provider
+    ? [...rules, createModelRule(provider, 'input'), createModelRule(provider, 'output')]
+    : rules;
+
+  const runRules = (stage: ModerationStage, text: string) => {
+    const stageRules = allRules.filter(rule => rule.stage === stage);
+    return Promise.all(stageRules.map(async (rule) => ({ rule, finding: await rule.check(text) })));
+  };
+
+  return {
+    async screen(stage, text) {
+      const findings = await runRules(stage, text);
+      return findings.flatMap(({ finding }) => finding ? [finding] : []);
+    },
+
+    async check(stage, text, context) {
+      const findings = await runRules(stage, text);
+
+      const interventions: ModerationIntervention[] = [];
+      const redactions: string[] = [];
+      for (const { rule, finding } of findings) {
+        if (finding) {
+          interventions.push({ stage, rule: rule.name, action: finding.action, reason: finding.reason });
+          redactions.push(...(finding.redact || []));
+        }
+      }
+
+      if (interventions.length > 0) {
+        log(interventions, context);
+      }
+
+      if (interventions.some(i => i.action === 'refuse')) {
+        return { allowed: false, content: stage === 'input' ? INPUT_REFUSAL : OUTPUT_REFUSAL, interventions };
+      }
+
+      let content = text;
+      for (const redaction of redactions) {
+        content = content.split(redaction).join(REDACTION_MARKER);
+      }
+      // Redacted recommendations get the disclaimer too
+      if (interventions.length > 0 && stage === 'output' && !content.includes(disclaimer)) {
+        content = `${content.trimEnd()}\n\n${disclaimer}`;
+      }
+
+      return { allowed: true, content, interventions };
+    },
+  };
+}
+
+export function isModerationEnabled(): boolean {
+  return process.env.MODERATION_ENABLED !== 'false';
+}
+
+// MODERATION_PROVIDER=openai adds the OpenAI moderation model; it is used by
+// default when OPENAI_API_KEY is set. "none" turns it off.
+function getConfiguredProvider(): ModerationProvider | undefined {
+  const name = process.env.MODERATION_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'none');
+  if (name === 'none') {
+    return undefined;
+  }
+  if (name !== 'openai') {
+    throw new Error(`Unknown moderation provider "${name}". Expected "openai" or "none".`);
+  }
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('MODERATION_PROVIDER=openai requires OPENAI_API_KEY');
+  }
+  return createOpenAIModerationProvider(process.env.OPENAI_API_KEY, process.env.MODERATION_MODEL);
+}
+
+let defaultPipeline: ModerationPipeline | null = null;
+
+function getModerationPipeline(): ModerationPipeline {
+  if (!defaultPipeline) {
+    defaultPipeline = createModerationPipeline({
+      provider: getConfiguredProvider(),
+      disclaimer: process.env.MODERATION_DISCLAIMER || DEFAULT_DISCLAIMER,
+    });
+  }
+  return defaultPipeline;
+}
+
+export async function moderateInput(text: string, context: ModerationContext): Promise<ModerationResult> {
+  if (!isModerationEnabled()) {
+    return { allowed: true, content: text, interventions: [] };
+  }
+  return getModerationPipeline().check('input', text, context);
+}
+
+export async function moderateOutput(text: string, context: ModerationContext): Promise<ModerationResult> {
+  if (!isModerationEnabled()) {
+    return { allowed: true, content: text, interventions: [] };
+  }
+  return getModerationPipeline().check('output', text, context);
+}
+
+export interface OutputStreamModerator {
+  push(delta: string): void;
+  // Moderates the whole answer once it has been streamed. replacement is set
+  // when what was sent differs from the moderated answer, and should replace it.
+  finish(text: string): Promise<ModerationResult & { replacement?: string }>;
+}
+
+// Streams an answer a sentence at a time, holding each sentence back until the
+// output rules have passed it: a sentence that would be redacted is sent as the
+// redaction marker, and nothing more is sent once one would be refused. The
+// disclaimer, if needed, is sent at the end. Without a pipeline (moderation
+// turned off) deltas pass straight through.
+export function createOutputStreamModerator(
+  context: ModerationContext,
+  onDelta: (delta: string) => void,
+  pipeline: ModerationPipeline | null = isModerationEnabled() ? getModerationPipeline() : null
+): OutputStreamModerator {
+  if (!pipeline) {
+    return {
+      push: onDelta,
+      finish: async (text) => ({ allowed: true, content: text, interventions: [] }),
+    };
+  }
+
+  const segmenter = new Intl.Segmenter('en-GB', { granularity: 'sentence' });
+  let pending = '';
+  let sent = '';
+  let refused = false;
+  // Sentences are screened one after another so they are sent in order
+  let queue: Promise<void> = Promise.resolve();
+
+  const release = (sentence: string) => {
+    queue = queue.then(async () => {
+      if (refused) {
+        return;
+      }
+      const findings = await pipeline.screen('output', sentence);
+      if (findings.some(finding => finding.action === 'refuse')) {
+        refused = true;
+        return;
+      }
+      const redacted = findings.some(finding => finding.action === 'redact')
+        ? sentence.replace(sentence.trim(), REDACTION_MARKER)
+        : sentence;
+      sent += redacted;
+      onDelta(redacted);
+    });
+  };
+
+  return {
+    push(delta) {
+      pending += delta;
+      // The last segment may be an unfinished sentence, so it is kept back
+      const segments = Array.from(segmenter.segment(pending), ({ segment }) => segment);
+      pending = segments.pop() ?? '';
+      for (const sentence of segments) {
+        release(sentence);
+      }
+    },
+
+    async finish(text) {
+      if (pending) {
+        release(pending);
+        pending = '';
+      }
+      await queue;
+
+      const result = await pipeline.check('output', text, context);
+      if (refused) {
+        return { allowed: false, content: OUTPUT_REFUSAL, interventions: result.interventions, replacement: OUTPUT_REFUSAL };
+      }
+      // Usually only the disclaimer is left to send
+      const streamed = sent.trimEnd();
+      if (result.allowed && result.content.startsWith(streamed)) {
+        const rest = result.content.slice(streamed.length);
+        if (rest) {
+          onDelta(rest);
+        }
+        return result;
+      }
+      return { ...result, replacement: result.content };
+    },
+  };
+}
@@ -1,51 +1,15 @@
 import OpenAI from "openai";
 
-// Lazy initialization - only create OpenAI clients when actually used
+import { runWithChatProvider, type ChatProvider, type ChatProviderName, type ProviderModel } from "./providers";
+import { estimateChatTokens, estimateTokenCount } from "./tokens";
+import type { KnowledgePassage } from "./storage";
+import { TAX_CALCULATORS, getTaxCalculator } from "./taxCalculators";
+import { PIIRedactor, isPIIReinsertEnabled, scrubPIIForSpeech } from "./pii";
+
+// Lazy initialization - only create the TTS client when actually used
 // This allows the server to start even if integrations aren't configured
-let chatClient: OpenAI | null = null;
 let ttsClient: OpenAI | null = null;
 
-// Chat client - supports Groq (preferred), OpenAI, or Replit AI Integrations
-function getOpenAIClient(): OpenAI {
-  if (!chatClient) {
-    // Support Groq, OpenAI, and Replit AI Integrations
-    // Priority: GROQ_API_KEY > OPENAI_API_KEY > Replit AI Integrations
-    const useGroq = process.env.GROQ_API_KEY;
-    const useStandardOpenAI = process.env.OPENAI_API_KEY;
-    const useReplitIntegration = process.env.AI_INTEGRATIONS_OPENAI_BASE_URL && process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
-    
-    if (!useGroq && !useStandardOpenAI && !useReplitIntegration) {
-      throw new Error(
-        'AI service is not configured. Please set either GROQ_API_KEY (for Groq), OPENAI_API_KEY (for OpenAI), or AI_INTEGRATIONS_OPENAI_BASE_URL and AI_INTEGRATIONS_OPENAI_API_KEY (for Replit AI Integrations) in your environment variables.'
-      );
-    }
-    
-    if (useGroq) {
-      // Using Groq API (preferred for production - faster and cheaper)
-      console.log('Using Groq API for chat');
-      chatClient = new OpenAI({
-        baseURL: 'https://api.groq.com/openai/v1',
-        apiKey: process.env.GROQ_API_KEY
-      });
-    } else if (useStandardOpenAI) {
-      // Using standard OpenAI API
-      console.log('Using standard OpenAI API for chat');
-      chatClient = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
-      });
-    } else {
-      // Fall back to Replit's AI Integrations service
-      console.log('Using Replit AI Integrations for chat');
-      chatClient = new OpenAI({
-        baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-        apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
-      });
-    }
-  }
-  
-  return chatClient;
-}
-
 // TTS client - ONLY uses OpenAI (Groq doesn't support TTS)
 function getTTSClient(): OpenAI {
   if (!ttsClient) {
@@ -82,19 +46,83 @@ interface ChatMessage {
   content: string;
 }
 
-export async function generateFinancialResponse(
-  userMessage: string,
-  conversationHistory: ChatMessage[] = []
-): Promise<string> {
-  if (!userMessage || userMessage.trim().length === 0) {
-    throw new Error('Message cannot be empty');
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // Prompt tokens served from the provider's prompt cache (included in promptTokens)
+  cachedTokens: number;
+  // True when the provider omitted usage and the counts were estimated locally
+  estimated: boolean;
+}
+
+// A calculator the model ran while answering
+export interface CalculatorCall {
+  name: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  provider: ChatProviderName;
+  model: string;
+  usage: ChatUsage;
+  calculations: CalculatorCall[];
+}
+
+export interface ChatStreamResult extends ChatCompletionResult {
+  aborted: boolean;
+}
+
+type ProviderUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+} | null | undefined;
+
+function resolveUsage(
+  providerUsage: ProviderUsage,
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  completion: string
+): ChatUsage {
+  if (providerUsage) {
+    return {
+      promptTokens: providerUsage.prompt_tokens,
+      completionTokens: providerUsage.completion_tokens,
+      cachedTokens: providerUsage.prompt_tokens_details?.cached_tokens ?? 0,
+      estimated: false,
+    };
   }
 
-  if (userMessage.length > 10000) {
-    throw new Error('Message is too long. Please keep messages under 10,000 characters.');
+  return {
+    promptTokens: estimateChatTokens(messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? message.content
+        : JSON.stringify(message.content ?? ('tool_calls' in message ? message.tool_calls : '')),
+    }))),
+    completionTokens: estimateTokenCount(completion),
+    cachedTokens: 0,
+    estimated: true,
+  };
+}
+
+// Totals usage across the rounds of a tool-calling exchange
+function addUsage(total: ChatUsage | null, round: ChatUsage): ChatUsage {
+  if (!total) {
+    return round;
   }
+  return {
+    promptTokens: total.promptTokens + round.promptTokens,
+    completionTokens: total.completionTokens + round.completionTokens,
+    cachedTokens: total.cachedTokens + round.cachedTokens,
+    estimated: total.estimated || round.estimated,
+  };
+}
 
-  const systemPrompt = `You are a knowledgeable UK financial advisor AI assistant specializing in UK tax laws, HMRC regulations, UK accounting standards, and UK personal finance. Your role is to:
+// Built-in advisor persona, used until an admin publishes a prompt version (see prompts.ts)
+export const DEFAULT_SYSTEM_PROMPT = `You are a knowledgeable UK financial advisor AI assistant specializing in UK tax laws, HMRC regulations, UK accounting standards, and UK personal finance. Your role is to:
 
 1. Provide accurate, helpful information about UK tax regulations, HMRC compliance, UK accounting principles, and UK financial planning
 2. Reference UK-specific tax allowances, bands, National Insurance, VAT, Corporation Tax, Income Tax, Capital Gains Tax, and Inheritance Tax
@@ -103,50 +131,345 @@ export async function generateFinancialResponse(
 5. Offer general guidance while always recommending users consult UK-qualified professionals (chartered accountants, tax advisors, IFAs) for specific advice
 6. Stay current with UK financial best practices, HMRC regulations, and UK tax year schedules
 7. Be thorough but concise in your explanations
+8. Use the calculator tools for any Income Tax, National Insurance, Capital Gains Tax or Stamp Duty figures instead of working them out yourself, and state the tax year the figures are for
 
 Important: Always provide information specific to the United Kingdom and HMRC regulations. Include appropriate disclaimers that your advice is for informational purposes only and users should consult UK-qualified professionals for their specific situations.`;
 
-  const messages: ChatMessage[] = [
+const FALLBACK_RESPONSE = "I apologize, but I couldn't generate a response. Please try again.";
+
+// Retrieved guidance, numbered so the answer can cite it as [n]
+function buildKnowledgeMessage(knowledge: KnowledgePassage[]): ChatMessage {
+  const sources = knowledge.map((passage, i) => {
+    const source = [passage.title, passage.heading].filter(Boolean).join(' - ');
+    return `[${i + 1}] ${source}${passage.url ? ` (${passage.url})` : ''}\n${passage.content}`;
+  });
+
+  return {
+    role: 'system',
+    content: `Reference material from the knowledge base:
+
+${sources.join('\n\n')}
+
+Base figures such as allowances, rates and thresholds on this material rather than memory, and cite the sources you use with their number in square brackets, e.g. [1]. If the material doesn't cover the question, say so and answer from general knowledge.`,
+  };
+}
+
+export interface ChatOptions {
+  // Retrieved knowledge base passages to ground the answer in
+  knowledge?: KnowledgePassage[];
+  // Persona prompt; DEFAULT_SYSTEM_PROMPT when omitted
+  systemPrompt?: string;
+  // Provider and model to try first, e.g. for an experiment variant
+  provider?: ProviderModel;
+  temperature?: number;
+}
+
+const PII_NOTE: ChatMessage = {
+  role: 'system',
+  content: 'Personal identifiers in this conversation have been replaced with placeholders such as [NI_NUMBER_1] or [POSTCODE_1]. Refer to them by placeholder and never guess the real values.',
+};
+
+// Identifiers in the user's messages are replaced with placeholders before
+// anything is sent to a provider
+function buildChatMessages(
+  userMessage: string,
+  conversationHistory: ChatMessage[],
+  { knowledge = [], systemPrompt = DEFAULT_SYSTEM_PROMPT }: ChatOptions,
+  redactor: PIIRedactor
+): ChatMessage[] {
+  if (!userMessage || userMessage.trim().length === 0) {
+    throw new Error('Message cannot be empty');
+  }
+
+  if (userMessage.length > 10000) {
+    throw new Error('Message is too long. Please keep messages under 10,000 characters.');
+  }
+
+  const history = conversationHistory.map(message => ({ ...message, content: redactor.redact(message.content) }));
+  const message = redactor.redact(userMessage);
+
+  return [
     { role: 'system', content: systemPrompt },
-    ...conversationHistory,
-    { role: 'user', content: userMessage }
+    ...(knowledge.length > 0 ? [buildKnowledgeMessage(knowledge)] : []),
+    ...(redactor.redactedCount > 0 ? [PII_NOTE] : []),
+    ...history,
+    { role: 'user', content: message }
   ];
+}
+
+function restorePII(redactor: PIIRedactor, content: string): string {
+  return isPIIReinsertEnabled() ? redactor.restore(content) : content;
+}
+
+// Calculator tool rounds before the model is made to answer with what it has
+const MAX_TOOL_ROUNDS = 4;
+
+const CALCULATOR_TOOLS: OpenAI.Chat.ChatCompletionTool[] = TAX_CALCULATORS.map(calculator => ({
+  type: 'function',
+  function: {
+    name: calculator.name,
+    description: calculator.description,
+    parameters: calculator.parameters,
+  },
+}));
+
+type ConversationMessage = OpenAI.Chat.ChatCompletionMessageParam;
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// Runs a calculator the model asked for. Bad arguments are reported back to the
+// model as an error result so it can correct itself.
+function runToolCall(call: PendingToolCall): { calculation: CalculatorCall; message: ConversationMessage } {
+  let calculation: CalculatorCall;
 
   try {
-    const openai = getOpenAIClient();
+    const input = call.arguments ? JSON.parse(call.arguments) : {};
+    const calculator = getTaxCalculator(call.name);
+    calculation = calculator
+      ? { name: call.name, input, output: calculator.run(input) }
+      : { name: call.name, input, error: `Unknown calculator "${call.name}"` };
+  } catch (error: any) {
+    const message = error.name === 'ZodError'
+      ? error.issues.map((issue: any) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+      : error.message;
+    calculation = { name: call.name, input: call.arguments, error: message || 'Calculation failed' };
+  }
+
+  console.log(`[Calculators] ${call.name}${calculation.error ? ` failed: ${calculation.error}` : ''}`);
+  return {
+    calculation,
+    message: {
+      role: 'tool',
+      tool_call_id: call.id,
+      content: JSON.stringify(calculation.error ? { error: calculation.error } : calculation.output),
+    },
+  };
+}
+
+// Records the assistant's tool calls and their results in the conversation
+function appendToolResults(
+  conversation: ConversationMessage[],
+  content: string | null,
+  toolCalls: PendingToolCall[],
+  calculations: CalculatorCall[]
+): void {
+  conversation.push({
+    role: 'assistant',
+    content,
+    tool_calls: toolCalls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  });
+
+  for (const call of toolCalls) {
+    const { calculation, message } = runToolCall(call);
+    calculations.push(calculation);
+    conversation.push(message);
+  }
+}
+
+function getRequestOptions(round: number, options: ChatOptions) {
+  return {
+    tools: CALCULATOR_TOOLS,
+    tool_choice: round < MAX_TOOL_ROUNDS ? 'auto' as const : 'none' as const,
+    ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+  };
+}
+
+export async function generateFinancialResponse(
+  userMessage: string,
+  conversationHistory: ChatMessage[] = [],
+  options: ChatOptions = {}
+): Promise<ChatCompletionResult> {
+  const redactor = new PIIRedactor();
+  const messages = buildChatMessages(userMessage, conversationHistory, options, redactor);
+
+  try {
+    // The whole tool loop runs against one provider; failover restarts it on the next
+    const { value, provider, model } = await runWithChatProvider(async ({ client, model }) => {
+      const conversation: ConversationMessage[] = [...messages];
+      const calculations: CalculatorCall[] = [];
+      let usage: ChatUsage | null = null;
+
+      for (let round = 0; ; round++) {
+        const response = await client.chat.completions.create({
+          model,
+          messages: conversation,
+          max_completion_tokens: 8192,
+          ...getRequestOptions(round, options),
+        });
+
+        const message = response.choices[0]?.message;
+        usage = addUsage(usage, resolveUsage(response.usage, conversation, message?.content || ''));
+
+        // The last round asks for no tools; a provider that calls them anyway
+        // still doesn't get another round
+        if (!message?.tool_calls?.length || round >= MAX_TOOL_ROUNDS) {
+          return { content: message?.content || FALLBACK_RESPONSE, usage, calculations };
+        }
+
+        appendToolResults(
+          conversation,
+          message.content,
+          message.tool_calls.map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+          calculations
+        );
+      }
+    }, undefined, options.provider);
+
+    return { ...value, content: restorePII(redactor, value.content), provider, model };
+  } catch (error: any) {
+    console.error('AI API Error:', error);
     
-    // Use Groq's Llama 3.3 70B if GROQ_API_KEY is set, otherwise use OpenAI's GPT-5
-    const model = process.env.GROQ_API_KEY ? "llama-3.3-70b-versatile" : "gpt-5";
+    // Provide helpful error message if integration isn't configured
+    if (error.message && error.message.includes('not configured')) {
+      throw error;
+    }
     
-    const response = await openai.chat.completions.create({
+    throw new Error('Failed to generate AI response. Please try again.');
+  }
+}
+
+// Streams the completion, calling onDelta for each content fragment as it arrives.
+// Failover to another provider only happens while opening the first stream; once
+// tokens have been forwarded an upstream error ends the response. Calculator tool
+// calls are run between rounds on the same provider.
+// If the signal is aborted (e.g. the client disconnected) the upstream request is
+// cancelled and whatever was received so far is returned with aborted set.
+export async function streamFinancialResponse(
+  userMessage: string,
+  conversationHistory: ChatMessage[],
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal,
+  options: ChatOptions = {}
+): Promise<ChatStreamResult> {
+  const redactor = new PIIRedactor();
+  const messages = buildChatMessages(userMessage, conversationHistory, options, redactor);
+  const output = isPIIReinsertEnabled()
+    ? redactor.createStreamRestorer(onDelta)
+    : { push: onDelta, flush: () => {} };
+  const conversation: ConversationMessage[] = [...messages];
+  const calculations: CalculatorCall[] = [];
+  let content = '';
+  let roundContent = '';
+  let providerUsage: ProviderUsage;
+  let usage: ChatUsage | null = null;
+  let active: ChatProvider | undefined;
+
+  const openStream = ({ client, model }: ChatProvider, round: number) =>
+    client.chat.completions.create({
       model,
-      messages,
+      messages: conversation,
       max_completion_tokens: 8192,
-    });
+      stream: true,
+      stream_options: { include_usage: true },
+      ...getRequestOptions(round, options),
+    }, { signal });
 
-    return response.choices[0]?.message?.content || "I apologize, but I couldn't generate a response. Please try again.";
+  try {
+    for (let round = 0; ; round++) {
+      let stream;
+      if (active) {
+        stream = await openStream(active, round);
+      } else {
+        stream = (await runWithChatProvider(provider => {
+          active = provider;
+          return openStream(provider, round);
+        }, signal, options.provider)).value;
+      }
+
+      const toolCalls: PendingToolCall[] = [];
+      roundContent = '';
+      providerUsage = undefined;
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          content += delta.content;
+          roundContent += delta.content;
+          output.push(delta.content);
+        }
+        // Tool call names and arguments arrive in fragments keyed by index
+        for (const fragment of delta?.tool_calls || []) {
+          const call = toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' };
+          call.id = fragment.id || call.id;
+          call.name += fragment.function?.name || '';
+          call.arguments += fragment.function?.arguments || '';
+        }
+        if (chunk.usage) {
+          providerUsage = chunk.usage;
+        }
+      }
+
+      usage = addUsage(usage, resolveUsage(providerUsage, conversation, roundContent));
+
+      // Tool calls in the last round (tool_choice 'none') are ignored rather than run
+      if (toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) {
+        output.flush();
+        return {
+          content: restorePII(redactor, content) || FALLBACK_RESPONSE,
+          provider: active!.name,
+          model: active!.model,
+          usage,
+          calculations,
+          aborted: false,
+        };
+      }
+
+      appendToolResults(conversation, roundContent || null, toolCalls, calculations);
+    }
   } catch (error: any) {
+    if (signal?.aborted && active) {
+      usage = addUsage(usage, resolveUsage(providerUsage, conversation, roundContent));
+      return { content: restorePII(redactor, content), provider: active.name, model: active.model, usage, calculations, aborted: true };
+    }
+    if (signal?.aborted) {
+      throw error;
+    }
+
     console.error('AI API Error:', error);
-    
-    // Provide helpful error message if integration isn't configured
+
     if (error.message && error.message.includes('not configured')) {
       throw error;
     }
-    
+
     throw new Error('Failed to generate AI response. Please try again.');
   }
 }
 
+export const TTS_MODEL = 'tts-1';
+export const TTS_MODELS = ['tts-1', 'tts-1-hd'] as const;
+// Longest input a single speech request accepts
+export const TTS_MAX_CHARACTERS = 4096;
+
+export const TTS_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+
+export type TTSModel = typeof TTS_MODELS[number];
+export type TTSVoice = typeof TTS_VOICES[number];
+export type TTSResponseFormat = 'mp3' | 'opus' | 'pcm';
+
+export function isTTSConfigured(): boolean {
+  return !!(process.env.OPENAI_API_KEY || (process.env.AI_INTEGRATIONS_OPENAI_BASE_URL && process.env.AI_INTEGRATIONS_OPENAI_API_KEY));
+}
+
 export async function generateTTSAudio(
   text: string,
-  voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' = 'nova',
-  speed: number = 1.0
+  voice: TTSVoice = 'nova',
+  speed: number = 1.0,
+  model: TTSModel = TTS_MODEL,
+  responseFormat: TTSResponseFormat = 'mp3'
 ): Promise<Buffer> {
   if (!text || text.trim().length === 0) {
     throw new Error('Text cannot be empty');
   }
 
-  if (text.length > 4096) {
+  if (text.length > TTS_MAX_CHARACTERS) {
     throw new Error('Text is too long. Please keep text under 4,096 characters.');
   }
 
@@ -154,10 +477,12 @@ export async function generateTTSAudio(
     const openai = getTTSClient();
     
     const response = await openai.audio.speech.create({
-      model: "tts-1",
+      model,
       voice: voice,
-      input: text,
+      // Identifiers are read out as e.g. "your postcode" rather than sent upstream
+      input: scrubPIIForSpeech(text),
       speed: speed,
+      response_format: responseFormat,
     });
 
     // Convert response to buffer
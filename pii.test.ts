@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { scrubPII, PIIRedactor } from "./pii";
+
+test("salaries and amounts are left alone", () => {
+  const questions = [
+    "I will be 120000 a year from April, how much tax will I pay?",
+    "My partner is on 45000 a year and I earn 52000 a year",
+    "If I get 30000 a month in dividends do I pay higher rate?",
+    "we made 250000 a year profit last year",
+    "Will I be over 100000 a year after my bonus?",
+  ];
+  for (const question of questions) {
+    assert.equal(scrubPII(question), question);
+  }
+});
+
+test("National Insurance numbers are redacted", () => {
+  assert.equal(scrubPII("My NI number is QQ123456C"), "My NI number is QQ123456C"); // QQ is not a valid prefix
+  assert.equal(scrubPII("My NI number is AB123456C"), "My NI number is [NI_NUMBER]");
+  assert.equal(scrubPII("NI: AB 12 34 56 C, salary 120000 a year"), "NI: [NI_NUMBER], salary 120000 a year");
+  assert.equal(scrubPII("it's ab123456c"), "it's [NI_NUMBER]");
+});
+
+test("UTRs are redacted but phone numbers and amounts are not", () => {
+  assert.equal(scrubPII("My UTR is 12345 67890"), "My UTR is [UTR]");
+  assert.equal(scrubPII("UTR 1234567890K"), "UTR [UTR]");
+  assert.equal(scrubPII("call me on 07700 900123"), "call me on 07700 900123");
+  assert.equal(scrubPII("I paid £12,345.67 last year"), "I paid £12,345.67 last year");
+});
+
+test("sort codes and account numbers are redacted", () => {
+  assert.equal(scrubPII("sort code 12-34-56"), "sort code [SORT_CODE]");
+  assert.equal(scrubPII("my sort code: 123456"), "my sort code: [SORT_CODE]");
+  assert.equal(scrubPII("account number 12345678"), "account number [ACCOUNT_NUMBER]");
+  assert.equal(scrubPII("account no. 87654321"), "account no. [ACCOUNT_NUMBER]");
+  assert.equal(scrubPII("pay 12-34-56 12345678 please"), "pay [BANK_DETAILS] please");
+  // Dates and counts without the words around them are left alone
+  assert.equal(scrubPII("the tax year starts 06-04-25"), "the tax year starts 06-04-25");
+  assert.equal(scrubPII("12345678 people filed late"), "12345678 people filed late");
+});
+
+test("postcodes are redacted but tax form names are not", () => {
+  assert.equal(scrubPII("I live at SW1A 1AA"), "I live at [POSTCODE]");
+  assert.equal(scrubPII("M1 1AE"), "[POSTCODE]");
+  assert.equal(scrubPII("EC1A1BB"), "[POSTCODE]");
+  assert.equal(scrubPII("Where is my P60 2nd copy?"), "Where is my P60 2nd copy?");
+  assert.equal(scrubPII("I got my P45 4th of May"), "I got my P45 4th of May");
+  assert.equal(scrubPII("Do I need a P11D or an SA302?"), "Do I need a P11D or an SA302?");
+});
+
+test("redacted values are restored in replies", () => {
+  const redactor = new PIIRedactor();
+  const prompt = redactor.redact("I'm AB123456C and I earn 120000 a year");
+  assert.equal(prompt, "I'm [NI_NUMBER_1] and I earn 120000 a year");
+  assert.equal(redactor.restore("Your number [NI_NUMBER_1] is fine"), "Your number AB123456C is fine");
+});
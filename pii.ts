@@ -0,0 +1,153 @@
+// Detection of UK personal identifiers in free text, so they can be kept out of
+// prompts sent to the LLM and TTS providers, logs and stored conversations.
+//
+// Chats use a PIIRedactor: each distinct value gets a numbered placeholder such
+// as [NI_NUMBER_1], and the reply can have the real values put back before it
+// is returned. Logs and stored text use scrubPII, which keeps no mapping.
+
+interface PIIPattern {
+  type: string;
+  // How the value is referred to when text is spoken
+  spoken: string;
+  pattern: RegExp;
+  // Capture group holding the identifier, when the pattern matches context around it
+  group?: number;
+}
+
+// Order matters: earlier patterns claim their digits first
+const PII_PATTERNS: PIIPattern[] = [
+  {
+    type: 'NI_NUMBER',
+    spoken: 'your National Insurance number',
+    // Two prefix letters (excluding combinations HMRC never issues), six digits, suffix A-D.
+    // Spaced numbers must be in capitals, so "be 120000 a year" stays a salary.
+    pattern: /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    type: 'NI_NUMBER',
+    spoken: 'your National Insurance number',
+    // Lower case only when written as one word, e.g. ab123456c
+    pattern: /\b(?!bg|gb|kn|nk|nt|tn|zz)[a-ceghj-pr-tw-z][a-ceghj-npr-tw-z]\d{6}[a-d]\b/gi,
+  },
+  {
+    type: 'BANK_DETAILS',
+    spoken: 'your bank details',
+    // Dashed sort code followed by an eight-digit account number
+    pattern: /\b\d{2}-\d{2}-\d{2}[^\d\n]{0,20}\b\d{8}\b/g,
+  },
+  {
+    type: 'SORT_CODE',
+    spoken: 'your sort code',
+    pattern: /\b(sort[\s-]?code\b[^\d\n]{0,15})(\d{2}[\s-]?\d{2}[\s-]?\d{2})\b/gi,
+    group: 2,
+  },
+  {
+    type: 'ACCOUNT_NUMBER',
+    spoken: 'your account number',
+    pattern: /\b(account\s+(?:number|no\.?)\b[^\d\n]{0,15})(\d{8})\b/gi,
+    group: 2,
+  },
+  {
+    type: 'UTR',
+    spoken: 'your tax reference',
+    // Unique Taxpayer Reference: ten digits, sometimes split 5+5 or with a trailing K
+    pattern: /\b\d{5} ?\d{5}K?\b/gi,
+  },
+  {
+    type: 'POSTCODE',
+    spoken: 'your postcode',
+    // Capitals only, and a one-letter area must be a real one (B, E, G, L, M, N,
+    // S or W), so form names like "P60 2nd" aren't taken for postcodes
+    pattern: /\b(?:GIR ?0AA|(?:[BEGLMNSW]|[A-PR-UWYZ][A-HK-Y])\d[A-Z\d]? ?\d[ABD-HJLNP-UW-Z]{2})\b/g,
+  },
+];
+
+// Longest placeholder we emit, used to hold back partial placeholders in streams
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+function replacePII(text: string, replace: (pattern: PIIPattern, value: string) => string): string {
+  let result = text;
+  for (const piiPattern of PII_PATTERNS) {
+    result = result.replace(piiPattern.pattern, (match, ...groups) => {
+      if (!piiPattern.group) {
+        return replace(piiPattern, match);
+      }
+      const prefix = piiPattern.group > 1 ? groups[0] as string : '';
+      const value = groups[piiPattern.group - 1] as string;
+      return prefix + replace(piiPattern, value) + match.slice(prefix.length + value.length);
+    });
+  }
+  return result;
+}
+
+export function isPIIReinsertEnabled(): boolean {
+  return process.env.PII_REINSERT !== 'false';
+}
+
+// Replaces identifiers with [TYPE] tags, for logs and stored text
+export function scrubPII(text: string): string {
+  return replacePII(text, ({ type }) => `[${type}]`);
+}
+
+// Replaces identifiers with a spoken description, for text sent to TTS
+export function scrubPIIForSpeech(text: string): string {
+  return replacePII(text, ({ spoken }) => spoken);
+}
+
+// Redacts the messages of one chat, remembering which placeholder stands for
+// which value so the same value always gets the same placeholder
+export class PIIRedactor {
+  private placeholders: Map<string, string> = new Map();
+  private values: Map<string, string> = new Map();
+  private counts: Map<string, number> = new Map();
+
+  get redactedCount(): number {
+    return this.values.size;
+  }
+
+  redact(text: string): string {
+    return replacePII(text, ({ type }, value) => {
+      const key = `${type}:${value.replace(/[\s-]/g, '').toUpperCase()}`;
+      let placeholder = this.placeholders.get(key);
+      if (!placeholder) {
+        const count = (this.counts.get(type) || 0) + 1;
+        this.counts.set(type, count);
+        placeholder = `[${type}_${count}]`;
+        this.placeholders.set(key, placeholder);
+        this.values.set(placeholder, value);
+      }
+      return placeholder;
+    });
+  }
+
+  restore(text: string): string {
+    if (this.values.size === 0) {
+      return text;
+    }
+    return text.replace(/\[[A-Z_]+_\d+\]/g, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  // Restores placeholders in streamed text. A placeholder split across deltas
+  // is held back until it is complete; call flush at the end of the stream.
+  createStreamRestorer(onDelta: (delta: string) => void): { push(delta: string): void; flush(): void } {
+    let pending = '';
+    return {
+      push: (delta) => {
+        pending += delta;
+        const open = pending.lastIndexOf('[');
+        const holdBack = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH;
+        const ready = holdBack ? pending.slice(0, open) : pending;
+        pending = holdBack ? pending.slice(open) : '';
+        if (ready) {
+          onDelta(this.restore(ready));
+        }
+      },
+      flush: () => {
+        if (pending) {
+          onDelta(this.restore(pending));
+          pending = '';
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+
+// Model price catalogue. Rates are in USD per token (per character for TTS, per
+// second of audio for transcription and media models).
+// A model can have several entries; the one with the latest effectiveFrom on or
+// before the request time applies, so correcting or changing a price means adding
+// a new entry rather than editing history. Set PRICING_FILE to a JSON file with
+// the same shape to replace the built-in catalogue without a code change.
+
+export const modelPriceSchema = z.object({
+  model: z.string().min(1),
+  effectiveFrom: z.coerce.date(),
+  inputPerToken: z.number().nonnegative().optional(),
+  outputPerToken: z.number().nonnegative().optional(),
+  cachedInputPerToken: z.number().nonnegative().optional(),
+  perCharacter: z.number().nonnegative().optional(),
+  perSecond: z.number().nonnegative().optional(),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+const DEFAULT_CATALOGUE: ModelPrice[] = [
+  { model: 'llama-3.3-70b-versatile', effectiveFrom: new Date('2024-12-06'), inputPerToken: 0.00000059, outputPerToken: 0.00000079 },
+  { model: 'gpt-4o', effectiveFrom: new Date('2024-05-13'), inputPerToken: 0.000005, outputPerToken: 0.000015 },
+  { model: 'gpt-4o', effectiveFrom: new Date('2024-10-02'), inputPerToken: 0.0000025, outputPerToken: 0.00001, cachedInputPerToken: 0.00000125 },
+  { model: 'gpt-4o-mini', effectiveFrom: new Date('2024-07-18'), inputPerToken: 0.00000015, outputPerToken: 0.0000006, cachedInputPerToken: 0.000000075 },
+  { model: 'gpt-5', effectiveFrom: new Date('2025-08-07'), inputPerToken: 0.00000125, outputPerToken: 0.00001, cachedInputPerToken: 0.000000125 },
+  { model: 'tts-1', effectiveFrom: new Date('2023-11-06'), perCharacter: 0.000015 },
+  { model: 'tts-1-hd', effectiveFrom: new Date('2023-11-06'), perCharacter: 0.00003 },
+  { model: 'whisper-1', effectiveFrom: new Date('2023-03-01'), perSecond: 0.0001 },
+  { model: 'whisper-large-v3', effectiveFrom: new Date('2024-04-01'), perSecond: 0.00003083 },
+  { model: 'whisper-large-v3-turbo', effectiveFrom: new Date('2024-10-01'), perSecond: 0.00001111 },
+  { model: 'local-silence', effectiveFrom: new Date('2024-01-01'), perCharacter: 0 },
+  // Self-hosted; set a rate here to account for GPU time
+  { model: 'wav2lip', effectiveFrom: new Date('2024-01-01'), perSecond: 0 },
+];
+
+let catalogue: ModelPrice[] | null = null;
+
+export function getPriceCatalogue(): ModelPrice[] {
+  if (!catalogue) {
+    const pricingFile = process.env.PRICING_FILE;
+    catalogue = pricingFile
+      ? z.array(modelPriceSchema).parse(JSON.parse(readFileSync(pricingFile, 'utf8')))
+      : DEFAULT_CATALOGUE;
+  }
+  return catalogue;
+}
+
+export function findModelPrice(model: string, at: Date = new Date()): ModelPrice | undefined {
+  let match: ModelPrice | undefined;
+
+  for (const price of getPriceCatalogue()) {
+    if (price.model !== model || price.effectiveFrom > at) {
+      continue;
+    }
+    if (!match || price.effectiveFrom > match.effectiveFrom) {
+      match = price;
+    }
+  }
+
+  return match;
+}
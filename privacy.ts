@@ -0,0 +1,124 @@
+import { createHmac } from "crypto";
+import { unlink } from "fs/promises";
+import {
+  storage,
+  type PersonalDataSubject,
+  type PersonalDataExport,
+  type PersonalDataErasure,
+} from "./storage";
+
+// Personal data in analytics and logs. Client IPs are stored as salted hashes,
+// which still identify repeat visitors (uniqueUsers, per-IP budgets) without
+// keeping the address. Raw analytics are kept for ANALYTICS_RETENTION_DAYS,
+// then rolled into daily aggregates. Admins can export or erase everything
+// linked to a user or IP.
+
+const DEVELOPMENT_SALT = 'development-ip-hash-salt';
+const HASHED_IP = /^[0-9a-f]{64}$/;
+
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function assertIpHashSaltConfigured(): void {
+  if (!process.env.IP_HASH_SALT) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("IP_HASH_SALT must be set in production.");
+    }
+    console.warn("IP_HASH_SALT is not set - IP addresses are hashed with a development salt");
+  }
+}
+
+// Already-hashed values pass through unchanged, so it is safe to call on a
+// value that may have been hashed earlier
+export function hashIp(ip: string): string {
+  if (HASHED_IP.test(ip)) {
+    return ip;
+  }
+  return createHmac('sha256', process.env.IP_HASH_SALT || DEVELOPMENT_SALT).update(ip).digest('hex');
+}
+
+// 0 keeps raw analytics forever
+export function getRetentionDays(): number {
+  return parseInt(process.env.ANALYTICS_RETENTION_DAYS || '90', 10);
+}
+
+export interface RetentionResult {
+  hashedIps: number;
+  rolledUpDays: number;
+  deletedRecords: number;
+  deletedFailures: number;
+  cutoff: Date | null;
+}
+
+export async function runRetention(): Promise<RetentionResult> {
+  // Rows written before IPs were hashed
+  const rawIps = await storage.getUnhashedIpAddresses();
+  for (const ip of rawIps) {
+    await storage.replaceIpAddress(ip, hashIp(ip));
+  }
+
+  const retentionDays = getRetentionDays();
+  if (retentionDays <= 0) {
+    return { hashedIps: rawIps.length, rolledUpDays: 0, deletedRecords: 0, deletedFailures: 0, cutoff: null };
+  }
+
+  // Whole UTC days only, so a day is never split between raw rows and an aggregate
+  const cutoff = new Date();
+  cutoff.setUTCHours(0, 0, 0, 0);
+  cutoff.setUTCDate(cutoff.getUTCDate() - retentionDays);
+
+  const { days, records } = await storage.rollUpAnalytics(cutoff);
+  const deletedFailures = await storage.deleteRequestFailures(cutoff);
+  return { hashedIps: rawIps.length, rolledUpDays: days, deletedRecords: records, deletedFailures, cutoff };
+}
+
+let retentionTimer: NodeJS.Timeout | null = null;
+
+// Runs the retention job now and then daily
+export function startRetentionJob(): void {
+  if (retentionTimer) {
+    return;
+  }
+
+  const run = () => {
+    runRetention()
+      .then(result => {
+        if (result.hashedIps > 0 || result.deletedRecords > 0) {
+          console.log(`[Privacy] Hashed ${result.hashedIps} IP(s), rolled ${result.deletedRecords} record(s) into ${result.rolledUpDays} day(s)`);
+        }
+      })
+      .catch((err: any) => {
+        console.error('Analytics retention job failed:', err);
+      });
+  };
+
+  run();
+  retentionTimer = setInterval(run, RETENTION_INTERVAL_MS);
+  retentionTimer.unref();
+}
+
+export function toDataSubject(query: { userId?: string; ip?: string }): PersonalDataSubject {
+  return query.userId ? { userId: query.userId } : { ipHash: hashIp(query.ip!), ip: query.ip };
+}
+
+export async function exportPersonalData(subject: PersonalDataSubject): Promise<PersonalDataExport> {
+  return storage.getPersonalData(subject);
+}
+
+export async function erasePersonalData(subject: PersonalDataSubject): Promise<Omit<PersonalDataErasure, 'videoJobs'> & { videoJobsDeleted: number }> {
+  const { videoJobs, ...erased } = await storage.erasePersonalData(subject);
+
+  // Uploaded audio and rendered videos belong to the erased jobs
+  for (const job of videoJobs) {
+    for (const file of [job.audioPath, job.videoPath]) {
+      if (file) {
+        await unlink(file).catch((err: any) => {
+          if (err.code !== 'ENOENT') {
+            console.error('Failed to delete video job file:', err);
+          }
+        });
+      }
+    }
+  }
+
+  return { ...erased, videoJobsDeleted: videoJobs.length };
+}
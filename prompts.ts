@@ -0,0 +1,64 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { DEFAULT_SYSTEM_PROMPT } from "./openai";
+import { personaNameSchema } from "./schema";
+
+// Advisor personas. Each persona's live system prompt is its active version in
+// the prompts table. The "default" persona falls back to the built-in prompt in
+// openai.ts until a version is published for it. Requests pick a persona with a
+// `persona` field or the X-Persona header, so each frontend can have its own.
+
+export const DEFAULT_PERSONA = 'default';
+
+// Active prompts are cached briefly so chats don't hit the database each time.
+// Unknown personas aren't cached, so made-up names can't grow the cache.
+const CACHE_TTL_MS = 30000;
+
+export interface ResolvedPrompt {
+  persona: string;
+  // Null for the built-in prompt
+  promptVersionId: string | null;
+  version: number | null;
+  content: string;
+}
+
+const cache: Map<string, { prompt: ResolvedPrompt; expiresAt: number }> = new Map();
+
+export function invalidatePromptCache(): void {
+  cache.clear();
+}
+
+export function getDefaultPersona(): string {
+  return process.env.DEFAULT_PERSONA || DEFAULT_PERSONA;
+}
+
+// The persona asked for by the request body or header, or the default. Null
+// when the X-Persona header isn't a valid persona name.
+export function getRequestedPersona(req: Request, bodyPersona?: string): string | null {
+  const header = req.headers['x-persona'];
+  if (header !== undefined && !personaNameSchema.safeParse(header).success) {
+    return null;
+  }
+  return bodyPersona || header as string | undefined || getDefaultPersona();
+}
+
+// Returns null when the persona has no active prompt (and isn't the default)
+export async function resolvePrompt(persona: string): Promise<ResolvedPrompt | null> {
+  const cached = cache.get(persona);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.prompt;
+  }
+
+  const active = await storage.getActivePrompt(persona);
+  let prompt: ResolvedPrompt | null = null;
+  if (active) {
+    prompt = { persona, promptVersionId: active.id, version: active.version, content: active.content };
+  } else if (persona === DEFAULT_PERSONA) {
+    prompt = { persona, promptVersionId: null, version: null, content: DEFAULT_SYSTEM_PROMPT };
+  }
+
+  if (prompt) {
+    cache.set(persona, { prompt, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+  return prompt;
+}
@@ -0,0 +1,201 @@
+import OpenAI from "openai";
+
+// Chat provider registry with ordered failover and per-provider circuit breaking.
+//
+// Order and models come from LLM_PROVIDERS, e.g. "groq:llama-3.3-70b-versatile,openai:gpt-4o".
+// Without it every provider that has credentials is used in the default order below.
+
+export type ChatProviderName = 'groq' | 'openai' | 'replit';
+
+interface ProviderDefinition {
+  defaultModel: string;
+  timeoutMs: number;
+  maxRetries: number;
+  getCredentials(): { apiKey: string; baseURL?: string } | null;
+}
+
+const PROVIDER_DEFINITIONS: Record<ChatProviderName, ProviderDefinition> = {
+  groq: {
+    defaultModel: 'llama-3.3-70b-versatile',
+    timeoutMs: 30000,
+    maxRetries: 1,
+    getCredentials: () => process.env.GROQ_API_KEY
+      ? { apiKey: process.env.GROQ_API_KEY, baseURL: 'https://api.groq.com/openai/v1' }
+      : null,
+  },
+  openai: {
+    defaultModel: 'gpt-5',
+    timeoutMs: 60000,
+    maxRetries: 1,
+    getCredentials: () => process.env.OPENAI_API_KEY
+      ? { apiKey: process.env.OPENAI_API_KEY }
+      : null,
+  },
+  replit: {
+    defaultModel: 'gpt-5',
+    timeoutMs: 60000,
+    maxRetries: 1,
+    getCredentials: () => process.env.AI_INTEGRATIONS_OPENAI_BASE_URL && process.env.AI_INTEGRATIONS_OPENAI_API_KEY
+      ? { apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY, baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL }
+      : null,
+  },
+};
+
+const DEFAULT_PROVIDER_ORDER: ChatProviderName[] = ['groq', 'openai', 'replit'];
+
+// Consecutive failures before a provider is skipped, and how long it is skipped for
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 60000;
+
+export interface ChatProvider {
+  name: ChatProviderName;
+  model: string;
+  client: OpenAI;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+let providers: ChatProvider[] | null = null;
+const circuits: Map<ChatProviderName, CircuitState> = new Map();
+
+export interface ProviderModel {
+  name: ChatProviderName;
+  model?: string;
+}
+
+// Parses "provider" or "provider:model"
+export function parseProviderModel(spec: string): ProviderModel {
+  const [name, ...modelParts] = spec.trim().split(':');
+  if (!DEFAULT_PROVIDER_ORDER.includes(name as ChatProviderName)) {
+    throw new Error(`Unknown LLM provider "${name}". Expected one of: ${DEFAULT_PROVIDER_ORDER.join(', ')}.`);
+  }
+  const model = modelParts.join(':');
+  return { name: name as ChatProviderName, model: model || undefined };
+}
+
+function parseProviderOrder(): ProviderModel[] {
+  const configured = process.env.LLM_PROVIDERS;
+  if (!configured) {
+    return DEFAULT_PROVIDER_ORDER.map(name => ({ name }));
+  }
+
+  return configured.split(',').map(parseProviderModel);
+}
+
+// Lazily built so the server can start before any provider is configured
+export function getChatProviders(): ChatProvider[] {
+  if (!providers) {
+    const configured: ChatProvider[] = [];
+
+    for (const { name, model } of parseProviderOrder()) {
+      const definition = PROVIDER_DEFINITIONS[name];
+      const credentials = definition.getCredentials();
+      if (!credentials) {
+        continue;
+      }
+
+      configured.push({
+        name,
+        model: model || definition.defaultModel,
+        client: new OpenAI({
+          ...credentials,
+          timeout: definition.timeoutMs,
+          maxRetries: definition.maxRetries,
+        }),
+      });
+    }
+
+    if (configured.length === 0) {
+      throw new Error(
+        'AI service is not configured. Please set either GROQ_API_KEY (for Groq), OPENAI_API_KEY (for OpenAI), or AI_INTEGRATIONS_OPENAI_BASE_URL and AI_INTEGRATIONS_OPENAI_API_KEY (for Replit AI Integrations) in your environment variables.'
+      );
+    }
+
+    console.log(`Chat providers: ${configured.map(p => `${p.name} (${p.model})`).join(' -> ')}`);
+    providers = configured;
+  }
+
+  return providers;
+}
+
+function isCircuitOpen(name: ChatProviderName): boolean {
+  const circuit = circuits.get(name);
+  return !!circuit && circuit.openUntil > Date.now();
+}
+
+function recordSuccess(name: ChatProviderName): void {
+  circuits.delete(name);
+}
+
+function recordFailure(name: ChatProviderName): void {
+  const circuit = circuits.get(name) || { consecutiveFailures: 0, openUntil: 0 };
+  circuit.consecutiveFailures++;
+
+  if (circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    circuit.consecutiveFailures = 0;
+    console.warn(`[Providers] Circuit opened for ${name} for ${CIRCUIT_COOLDOWN_MS / 1000}s`);
+  }
+
+  circuits.set(name, circuit);
+}
+
+export interface ProviderResult<T> {
+  value: T;
+  provider: ChatProviderName;
+  model: string;
+}
+
+// Moves the preferred provider to the front, with its model overridden. The rest
+// keep their configured models, so failover still lands on a working setup.
+function preferProvider(all: ChatProvider[], preferred?: ProviderModel): ChatProvider[] {
+  if (!preferred) {
+    return all;
+  }
+
+  const match = all.find(p => p.name === preferred.name);
+  if (!match) {
+    console.warn(`[Providers] Preferred provider ${preferred.name} is not configured, using the default order`);
+    return all;
+  }
+
+  return [
+    { ...match, model: preferred.model || match.model },
+    ...all.filter(p => p !== match),
+  ];
+}
+
+// Runs the operation against each provider in order until one succeeds.
+// Providers with an open circuit are skipped unless every provider is open,
+// in which case they are all tried anyway rather than failing outright.
+export async function runWithChatProvider<T>(
+  operation: (provider: ChatProvider) => Promise<T>,
+  signal?: AbortSignal,
+  preferred?: ProviderModel
+): Promise<ProviderResult<T>> {
+  const all = preferProvider(getChatProviders(), preferred);
+  const available = all.filter(p => !isCircuitOpen(p.name));
+  const candidates = available.length > 0 ? available : all;
+  let lastError: unknown;
+
+  for (const provider of candidates) {
+    try {
+      const value = await operation(provider);
+      recordSuccess(provider.name);
+      return { value, provider: provider.name, model: provider.model };
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      lastError = error;
+      recordFailure(provider.name);
+      console.error(`[Providers] ${provider.name} (${provider.model}) failed${error?.status ? ` with status ${error.status}` : ''}, trying next provider`);
+    }
+  }
+
+  throw lastError;
+}
@@ -1,49 +1,208 @@
-interface RateLimitEntry {
+import type { Request, Response, NextFunction } from "express";
+import { and, eq, lt, sql } from "drizzle-orm";
+import { db } from "./db";
+import { rateLimitHits } from "./schema";
+
+// Sliding window counter: the previous fixed window's count is weighted by how
+// much of it still overlaps the sliding window, which smooths out the burst a
+// plain fixed window allows at each boundary.
+
+export interface RateLimitPolicy {
+  name: string;
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+export interface RateLimitStore {
+  // Records a hit in the window starting at windowStart and returns the counts
+  // for that window and the one before it
+  increment(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>;
+}
+
+interface WindowEntry {
   count: number;
-  resetTime: number;
+  expiresAt: number;
 }
 
-class RateLimiter {
-  private requests: Map<string, RateLimitEntry> = new Map();
-  private readonly maxRequests: number;
-  private readonly windowMs: number;
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows: Map<string, WindowEntry> = new Map();
 
-  constructor(maxRequests: number = 20, windowMinutes: number = 1) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMinutes * 60 * 1000;
-    
+  constructor() {
     setInterval(() => this.cleanup(), 60000);
   }
 
   private cleanup(): void {
     const now = Date.now();
-    const entries = Array.from(this.requests.entries());
+    const entries = Array.from(this.windows.entries());
     for (const [key, entry] of entries) {
-      if (entry.resetTime < now) {
-        this.requests.delete(key);
+      if (entry.expiresAt < now) {
+        this.windows.delete(key);
       }
     }
   }
 
-  public checkLimit(identifier: string): { allowed: boolean; resetTime?: number } {
-    const now = Date.now();
-    const entry = this.requests.get(identifier);
+  async increment(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    const currentKey = `${key}@${windowStart}`;
+    const entry = this.windows.get(currentKey);
+    if (entry) {
+      entry.count++;
+    } else {
+      // Kept until the following window has also ended, since it is weighted into that one
+      this.windows.set(currentKey, { count: 1, expiresAt: windowStart + 2 * windowMs });
+    }
 
-    if (!entry || entry.resetTime < now) {
-      this.requests.set(identifier, {
+    const previous = this.windows.get(`${key}@${windowStart - windowMs}`);
+    return { current: entry ? entry.count : 1, previous: previous?.count || 0 };
+  }
+}
+
+// Shares counters between instances and across restarts
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor() {
+    setInterval(() => {
+      db.delete(rateLimitHits)
+        .where(lt(rateLimitHits.expiresAt, new Date()))
+        .catch((err: any) => console.error('Failed to clean up rate limit windows:', err));
+    }, 10 * 60000);
+  }
+
+  async increment(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    const [current] = await db
+      .insert(rateLimitHits)
+      .values({
+        key,
+        windowStart,
         count: 1,
-        resetTime: now + this.windowMs,
-      });
-      return { allowed: true };
-    }
+        expiresAt: new Date(windowStart + 2 * windowMs),
+      })
+      .onConflictDoUpdate({
+        target: [rateLimitHits.key, rateLimitHits.windowStart],
+        set: { count: sql`${rateLimitHits.count} + 1` },
+      })
+      .returning({ count: rateLimitHits.count });
+
+    const [previous] = await db
+      .select({ count: rateLimitHits.count })
+      .from(rateLimitHits)
+      .where(and(eq(rateLimitHits.key, key), eq(rateLimitHits.windowStart, windowStart - windowMs)));
+
+    return { current: current.count, previous: previous?.count || 0 };
+  }
+}
 
-    if (entry.count >= this.maxRequests) {
-      return { allowed: false, resetTime: entry.resetTime };
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+}
+
+export async function checkRateLimit(
+  store: RateLimitStore,
+  policy: RateLimitPolicy,
+  identifier: string,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const windowStart = now - (now % policy.windowMs);
+  const { current, previous } = await store.increment(`${policy.name}:${identifier}`, windowStart, policy.windowMs);
+
+  const previousWeight = 1 - (now - windowStart) / policy.windowMs;
+  const estimated = Math.floor(previous * previousWeight) + current;
+
+  return {
+    allowed: estimated <= policy.maxRequests,
+    limit: policy.maxRequests,
+    remaining: Math.max(policy.maxRequests - estimated, 0),
+    resetTime: windowStart + policy.windowMs,
+  };
+}
+
+export const RATE_LIMIT_POLICIES = {
+  chat: { name: 'chat', maxRequests: 20, windowMs: 60 * 1000 },
+  tts: { name: 'tts', maxRequests: 30, windowMs: 60 * 1000 },
+  stt: { name: 'stt', maxRequests: 20, windowMs: 60 * 1000 },
+  feedback: { name: 'feedback', maxRequests: 30, windowMs: 60 * 1000 },
+  video: { name: 'video', maxRequests: 5, windowMs: 60 * 1000 },
+  adminLogin: { name: 'admin-login', maxRequests: 10, windowMs: 15 * 60 * 1000 },
+} satisfies Record<string, RateLimitPolicy>;
+
+function createStore(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'postgres') {
+    console.log('Using Postgres rate limit store');
+    return new PostgresRateLimitStore();
+  }
+  return new MemoryRateLimitStore();
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+function getDefaultStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = createStore();
+  }
+  return defaultStore;
+}
+
+// Applies a policy per client IP and, when logged in, per user as well, so
+// signing up more accounts doesn't raise what one IP can send. Usable from
+// handlers whose limit depends on the parsed request. Sets the IETF draft
+// RateLimit-* headers, and resolves false once a 429 with Retry-After has been sent.
+export async function applyRateLimit(
+  req: Request,
+  res: Response,
+  policy: RateLimitPolicy,
+  store?: RateLimitStore
+): Promise<boolean> {
+  const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+  const userId = req.session?.userId;
+  const identifiers = userId ? [`user:${userId}`, `ip:${clientIp}`] : [`ip:${clientIp}`];
+
+  try {
+    const results = await Promise.all(
+      identifiers.map(identifier => checkRateLimit(store || getDefaultStore(), policy, identifier))
+    );
+    // Whichever limit is closer to running out is the one reported
+    const index = results.reduce((tightest, result, i) =>
+      result.remaining < results[tightest].remaining || (!result.allowed && results[tightest].allowed) ? i : tightest, 0);
+    const result = results[index];
+    const identifier = identifiers[index];
+    const resetSeconds = Math.max(Math.ceil((result.resetTime - Date.now()) / 1000), 0);
+
+    res.setHeader('RateLimit-Policy', `${policy.maxRequests};w=${Math.round(policy.windowMs / 1000)}`);
+    res.setHeader('RateLimit-Limit', result.limit);
+    res.setHeader('RateLimit-Remaining', result.remaining);
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (result.allowed) {
+      return true;
     }
 
-    entry.count++;
-    return { allowed: true };
+    console.log(`[API] Rate limit (${policy.name}) exceeded for`, identifier);
+    res.setHeader('Retry-After', resetSeconds);
+    const resetDate = new Date(result.resetTime);
+    res.status(429).json({
+      error: `Rate limit exceeded. Please try again after ${resetDate.toLocaleTimeString()}.`,
+      success: false,
+      retryAfter: result.resetTime
+    });
+    return false;
+  } catch (error) {
+    // A broken store shouldn't take the API down with it
+    console.error('Rate limit check failed:', error);
+    return true;
   }
 }
 
-export const chatRateLimiter = new RateLimiter(20, 1);
+// Middleware form of applyRateLimit
+export function rateLimit(policy: RateLimitPolicy, store?: RateLimitStore) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (await applyRateLimit(req, res, policy, store)) {
+      next();
+    }
+  };
+}
@@ -0,0 +1,160 @@
+import { Readable } from "stream";
+import { storage, type AnalyticsTotals, type InvoiceLine } from "./storage";
+import { analyticsCursorSchema, type Analytics, type AnalyticsCursor, type AnalyticsExportFormat } from "./schema";
+
+// Exports for reconciling AI spend against provider invoices. Record exports
+// read the analytics table a page at a time and stream it, so a large range is
+// never held in memory. The invoice report totals usage per provider, model and
+// type for a calendar month, including days already rolled up, so it adds up
+// to the analytics summary for the same range.
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// Hashed IPs are left out; exports are for spend, not visitors
+const EXPORT_COLUMNS = [
+  'id',
+  'timestamp',
+  'type',
+  'provider',
+  'model',
+  'userId',
+  'inputTokens',
+  'outputTokens',
+  'cachedTokens',
+  'characters',
+  'audioSeconds',
+  'cost',
+  'priced',
+  'cacheHit',
+  'promptVersionId',
+  'variantId',
+  'duration',
+] as const satisfies readonly (keyof Analytics)[];
+
+const TOTAL_COLUMNS = [
+  'requests',
+  'cost',
+  'inputTokens',
+  'outputTokens',
+  'characters',
+  'audioSeconds',
+  'totalDuration',
+  'unpricedRequests',
+  'cacheHits',
+] as const satisfies readonly (keyof AnalyticsTotals)[];
+
+export const EXPORT_CONTENT_TYPES: Record<AnalyticsExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(csvValue).join(',') + '\r\n';
+}
+
+function formatRecord(record: Analytics, format: AnalyticsExportFormat): string {
+  if (format === 'csv') {
+    return toCsvRow(EXPORT_COLUMNS.map(column => record[column]));
+  }
+  const row: Record<string, unknown> = {};
+  for (const column of EXPORT_COLUMNS) {
+    row[column] = record[column];
+  }
+  return JSON.stringify(row) + '\n';
+}
+
+// One chunk per page of records, oldest first
+async function* exportChunks(format: AnalyticsExportFormat, startDate: Date, endDate: Date): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield toCsvRow([...EXPORT_COLUMNS]);
+  }
+
+  let cursor: AnalyticsCursor | undefined;
+  do {
+    const page = await storage.getAnalyticsPage(startDate, endDate, { limit: EXPORT_PAGE_SIZE, cursor, ascending: true });
+    if (page.records.length > 0) {
+      yield page.records.map(record => formatRecord(record, format)).join('');
+    }
+    cursor = page.nextCursor ? analyticsCursorSchema.parse(page.nextCursor) : undefined;
+  } while (cursor);
+}
+
+// Only records not yet rolled up into daily totals can be exported row by row
+export function createAnalyticsExport(format: AnalyticsExportFormat, startDate: Date, endDate: Date): Readable {
+  return Readable.from(exportChunks(format, startDate, endDate));
+}
+
+export interface InvoiceReport {
+  month: string;
+  startDate: Date;
+  endDate: Date;
+  lines: InvoiceLine[];
+  // Subtotals to check against each provider's invoice
+  providers: (AnalyticsTotals & { provider: string })[];
+  totals: AnalyticsTotals;
+}
+
+// The previous calendar month, as YYYY-MM in UTC
+export function getPreviousMonth(now: Date = new Date()): string {
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return month.toISOString().slice(0, 7);
+}
+
+export function getMonthRange(month: string): { startDate: Date; endDate: Date } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const startDate = new Date(Date.UTC(year, monthNumber - 1, 1));
+  // Ranges include their end, so stop just before the next month
+  const endDate = new Date(Date.UTC(year, monthNumber, 1) - 1);
+  return { startDate, endDate };
+}
+
+// Costs are stored to 6 decimal places; rounding keeps float noise out of the totals
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+function sumTotals(items: AnalyticsTotals[]): AnalyticsTotals {
+  const totals = Object.fromEntries(TOTAL_COLUMNS.map(column => [column, 0])) as unknown as AnalyticsTotals;
+  for (const item of items) {
+    for (const column of TOTAL_COLUMNS) {
+      totals[column] += item[column];
+    }
+  }
+  totals.cost = roundCost(totals.cost);
+  return totals;
+}
+
+export async function buildInvoiceReport(month: string): Promise<InvoiceReport> {
+  const { startDate, endDate } = getMonthRange(month);
+  const lines = (await storage.getInvoiceLines(startDate, endDate))
+    .map(line => ({ ...line, cost: roundCost(line.cost) }));
+
+  const providerNames = Array.from(new Set(lines.map(line => line.provider)));
+  const providers = providerNames.map(provider => ({
+    provider,
+    ...sumTotals(lines.filter(line => line.provider === provider)),
+  }));
+
+  return { month, startDate, endDate, lines, providers, totals: sumTotals(lines) };
+}
+
+// Line items, then a subtotal per provider and the grand total
+export function invoiceReportToCsv(report: InvoiceReport): string {
+  const rows = [toCsvRow(['month', 'provider', 'model', 'type', ...TOTAL_COLUMNS])];
+  for (const line of report.lines) {
+    rows.push(toCsvRow([report.month, line.provider, line.model, line.type, ...TOTAL_COLUMNS.map(column => line[column])]));
+  }
+  for (const subtotal of report.providers) {
+    rows.push(toCsvRow([report.month, subtotal.provider, 'subtotal', '', ...TOTAL_COLUMNS.map(column => subtotal[column])]));
+  }
+  rows.push(toCsvRow([report.month, 'total', '', '', ...TOTAL_COLUMNS.map(column => report.totals[column])]));
+  return rows.join('');
+}
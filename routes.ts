@@ -1,51 +1,431 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
+import { pipeline } from "stream/promises";
 import { storage } from "./storage";
-import { chatRequestSchema } from "./schema";
-import { generateFinancialResponse, generateTTSAudio } from "./openai";
-import { chatRateLimiter } from "./rateLimiter";
-import { trackChatRequest, trackTTSRequest, estimateTokenCount } from "./analytics";
+import {
+  chatRequestSchema,
+  createConversationRequestSchema,
+  registerRequestSchema,
+  loginRequestSchema,
+  updateUserRoleRequestSchema,
+  recomputeCostsRequestSchema,
+  upsertBudgetRequestSchema,
+  wav2lipTextRequestSchema,
+  wav2lipAudioRequestSchema,
+  transcribeRequestSchema,
+  ingestKnowledgeRequestSchema,
+  createPromptRequestSchema,
+  createExperimentRequestSchema,
+  feedbackRequestSchema,
+  listFeedbackQuerySchema,
+  reviewFeedbackRequestSchema,
+  listModerationEventsQuerySchema,
+  personalDataQuerySchema,
+  analyticsQuerySchema,
+  analyticsExportQuerySchema,
+  invoiceReportQuerySchema,
+  createAlertRuleRequestSchema,
+  updateAlertRuleRequestSchema,
+  listAlertFiringsQuerySchema,
+  BUDGET_ALL_SUBJECTS,
+  type ChatMessage,
+  type VideoJob,
+} from "./schema";
+import { generateFinancialResponse, streamFinancialResponse } from "./openai";
+import { parseProviderModel } from "./providers";
+import { getTTSProvider, getDefaultTTSProviderName, listTTSProviders } from "./ttsProviders";
+import { getOrGenerateTTSAudio, getTTSCacheKey } from "./ttsCache";
+import {
+  AUDIO_FORMATS,
+  AUDIO_CONTENT_TYPES,
+  getUpstreamFormat,
+  getSupportedFormats,
+  createWavHeader,
+  splitTextForSpeech,
+  synthesizeInOrder,
+} from "./ttsStream";
+import { rateLimit, applyRateLimit, RATE_LIMIT_POLICIES } from "./rateLimiter";
+import {
+  getSTTProvider,
+  getDefaultSTTProviderName,
+  listSTTProviders,
+  getSTTLimits,
+  getWavDurationSeconds,
+} from "./sttProviders";
+import { trackChatRequest, trackTTSRequest, trackSTTRequest, trackFailedRequest, recomputeAnalyticsCosts } from "./analytics";
+import { getPriceCatalogue } from "./pricing";
+import { enforceBudget, getBudgetStatuses, invalidateBudgetCache } from "./budgets";
+import {
+  submitVideoJob,
+  isWav2LipConfigured,
+  isTerminalStatus,
+  toPublicVideoJob,
+  videoJobEvents,
+  WAV2LIP_AUDIO_TYPES,
+} from "./wav2lip";
+import { getOwnedConversation, loadConversationHistory, saveExchange } from "./conversations";
+import { TAX_CALCULATORS, getTaxCalculator } from "./taxCalculators";
+import { SUPPORTED_TAX_YEARS, getDefaultTaxYear } from "./taxYears";
+import {
+  DEFAULT_PERSONA,
+  getDefaultPersona,
+  getRequestedPersona,
+  invalidatePromptCache,
+} from "./prompts";
+import { moderateInput, moderateOutput, createOutputStreamModerator } from "./moderation";
+import { scrubPII } from "./pii";
+import { hashIp, toDataSubject, exportPersonalData, erasePersonalData, runRetention } from "./privacy";
+import {
+  EXPORT_CONTENT_TYPES,
+  createAnalyticsExport,
+  buildInvoiceReport,
+  invoiceReportToCsv,
+  getPreviousMonth,
+} from "./reports";
+import { checkAlerts, buildAlertPayload, deliverWebhook, getWebhookUrl } from "./alerts";
+import {
+  resolveChatSetup,
+  getAssignmentSubject,
+  invalidateExperimentCache,
+} from "./experiments";
+import {
+  retrieveKnowledge,
+  getCitations,
+  searchKnowledgeBase,
+  ingestKnowledgeDocument,
+  deleteKnowledgeDocument,
+} from "./knowledgeBase";
+import {
+  hashPassword,
+  verifyPassword,
+  getDummyPasswordHash,
+  toPublicUser,
+  requireAuth,
+  requireAdmin,
+  getSessionUserId,
+  verifyAdminPassword,
+  getAdminLockout,
+  recordFailedAdminAttempt,
+  clearFailedAdminAttempts,
+} from "./auth";
 import { z } from "zod";
 
+// Jobs submitted by a logged-in user are only visible to that user; anonymous
+// jobs are reachable by anyone holding the (unguessable) job id
+function canAccessVideoJob(job: VideoJob, req: Request): boolean {
+  return !job.userId || job.userId === getSessionUserId(req);
+}
+
+// Start of an analytics reporting period: today, week, month or all
+function getPeriodStartDate(period: string): Date {
+  const startDate = new Date();
+
+  switch (period) {
+    case 'week':
+      startDate.setDate(startDate.getDate() - 7);
+      break;
+    case 'month':
+      startDate.setMonth(startDate.getMonth() - 1);
+      break;
+    case 'all':
+      return new Date(0);
+    default:
+      startDate.setHours(0, 0, 0, 0);
+  }
+
+  return startDate;
+}
+
+interface AudioUpload {
+  audio: Buffer;
+  filename: string;
+  mimeType: string;
+  fields: Record<string, string>;
+}
+
+// Accepts either a raw audio/* body with options in the query string, or a
+// multipart form with the clip in an "audio" (or "file") field
+async function readAudioUpload(req: Request): Promise<AudioUpload | null> {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return null;
+  }
+
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.startsWith('multipart/form-data')) {
+    const mimeType = contentType.split(';')[0].trim();
+    const extension = mimeType.split('/')[1] || 'bin';
+    const fields = Object.fromEntries(
+      Object.entries(req.query).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+    return { audio: req.body, filename: `audio.${extension}`, mimeType, fields };
+  }
+
+  const form = await new Response(req.body, { headers: { 'Content-Type': contentType } }).formData();
+  const file = form.get('audio') ?? form.get('file');
+  if (!file || typeof file === 'string') {
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  form.forEach((value, key) => {
+    if (typeof value === 'string') {
+      fields[key] = value;
+    }
+  });
+  return {
+    audio: Buffer.from(await file.arrayBuffer()),
+    filename: file.name || 'audio',
+    mimeType: file.type || 'application/octet-stream',
+    fields,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  app.post("/api/chat", async (req, res) => {
+  app.post("/api/auth/register", async (req, res) => {
+    console.log('[API] Received register request');
+    try {
+      const validatedData = registerRequestSchema.parse(req.body);
+
+      const existing = await storage.getUserByUsername(validatedData.username);
+      if (existing) {
+        return res.status(409).json({
+          error: 'Username is already taken',
+          success: false
+        });
+      }
+
+      const user = await storage.createUser({
+        username: validatedData.username,
+        password: await hashPassword(validatedData.password),
+      });
+
+      // Regenerate to avoid session fixation
+      req.session.regenerate((err) => {
+        if (err) {
+          console.error('Session regenerate error:', err);
+          return res.status(500).json({
+            error: 'Failed to start session',
+            success: false
+          });
+        }
+        req.session.userId = user.id;
+        res.status(201).json({
+          user: toPublicUser(user),
+          success: true
+        });
+      });
+    } catch (error: any) {
+      console.error('Register endpoint error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to register',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    console.log('[API] Received login request');
+    try {
+      const validatedData = loginRequestSchema.parse(req.body);
+
+      const user = await storage.getUserByUsername(validatedData.username);
+      // Always run a hash comparison so response time doesn't reveal whether the username exists
+      const passwordValid = await verifyPassword(
+        validatedData.password,
+        user?.password ?? await getDummyPasswordHash()
+      );
+
+      if (!user || !passwordValid) {
+        return res.status(401).json({
+          error: 'Invalid username or password',
+          success: false
+        });
+      }
+
+      req.session.regenerate((err) => {
+        if (err) {
+          console.error('Session regenerate error:', err);
+          return res.status(500).json({
+            error: 'Failed to start session',
+            success: false
+          });
+        }
+        req.session.userId = user.id;
+        res.json({
+          user: toPublicUser(user),
+          success: true
+        });
+      });
+    } catch (error: any) {
+      console.error('Login endpoint error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to log in',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    console.log('[API] Received logout request');
+    req.session.destroy((err) => {
+      if (err) {
+        console.error('Session destroy error:', err);
+        return res.status(500).json({
+          error: 'Failed to log out',
+          success: false
+        });
+      }
+      res.clearCookie('connect.sid');
+      res.json({
+        success: true
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({
+          error: 'Authentication required',
+          success: false
+        });
+      }
+
+      res.json({
+        user: toPublicUser(user),
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Me endpoint error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch user',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/chat", rateLimit(RATE_LIMIT_POLICIES.chat), enforceBudget, async (req, res) => {
     console.log('[API] Received chat request');
     const startTime = Date.now();
     try {
       const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
-      const rateLimitResult = chatRateLimiter.checkLimit(clientIp);
-      
-      if (!rateLimitResult.allowed) {
-        console.log('[API] Rate limit exceeded for', clientIp);
-        const resetDate = new Date(rateLimitResult.resetTime!);
-        return res.status(429).json({
-          error: `Rate limit exceeded. Please try again after ${resetDate.toLocaleTimeString()}.`,
-          success: false,
-          retryAfter: rateLimitResult.resetTime
+      const validatedData = chatRequestSchema.parse(req.body);
+      const userId = getSessionUserId(req);
+      const { conversationId } = validatedData;
+      // History only ever comes from the stored conversation
+      let history: ChatMessage[] = [];
+
+      if (conversationId) {
+        if (!userId) {
+          return res.status(401).json({
+            error: 'Authentication required',
+            success: false
+          });
+        }
+        const conversation = await getOwnedConversation(conversationId, userId);
+        if (!conversation) {
+          return res.status(404).json({
+            error: 'Conversation not found',
+            success: false
+          });
+        }
+        history = await loadConversationHistory(conversationId);
+      }
+
+      const persona = getRequestedPersona(req, validatedData.persona);
+      if (!persona) {
+        return res.status(400).json({
+          error: 'Invalid X-Persona header',
+          success: false
+        });
+      }
+      const setup = await resolveChatSetup(persona, getAssignmentSubject(userId, clientIp));
+      if (!setup) {
+        return res.status(400).json({
+          error: `Unknown persona "${persona}"`,
+          success: false
         });
       }
 
-      const validatedData = chatRequestSchema.parse(req.body);
-      console.log('[API] Request validated, calling AI...');
+      const input = await moderateInput(validatedData.message, { ipAddress: clientIp, userId });
+      if (!input.allowed) {
+        return res.json({
+          message: input.content,
+          refused: true,
+          moderation: input.interventions,
+          conversationId,
+          persona,
+          success: true
+        });
+      }
+
+      const knowledge = await retrieveKnowledge(input.content);
+      console.log(`[API] Request validated with ${knowledge.length} knowledge passage(s), calling AI...`);
       
       const response = await generateFinancialResponse(
-        validatedData.message,
-        validatedData.conversationHistory || []
+        input.content,
+        history,
+        { knowledge, ...setup.options }
       );
 
       const duration = Date.now() - startTime;
       console.log('[API] Got response from AI, sending to client');
       
-      const inputTokens = estimateTokenCount(validatedData.message);
-      const outputTokens = estimateTokenCount(response);
-      const model = process.env.GROQ_API_KEY ? "llama-3.3-70b-versatile" : "gpt-4o";
-      
-      trackChatRequest(clientIp, inputTokens, outputTokens, model, duration).catch((err: any) => {
+      const messageId = randomUUID();
+      const output = await moderateOutput(response.content, { ipAddress: clientIp, userId, messageId });
+      // Feedback is keyed by the analytics record, so it has to exist before messageId is returned
+      const tracked = await trackChatRequest({
+        id: messageId,
+        ipAddress: clientIp,
+        userId,
+        inputTokens: response.usage.promptTokens,
+        outputTokens: response.usage.completionTokens,
+        cachedTokens: response.usage.cachedTokens,
+        provider: response.provider,
+        model: response.model,
+        promptVersionId: setup.prompt.promptVersionId,
+        variantId: setup.variant?.id,
+        duration,
+      }).then(() => true, (err: any) => {
         console.error('Failed to track chat request:', err);
+        return false;
       });
+
+      if (conversationId) {
+        await saveExchange(conversationId, input.content, output.content, messageId);
+      }
       
       res.json({ 
-        message: response,
+        messageId: tracked ? messageId : null,
+        message: output.content,
+        refused: !output.allowed,
+        moderation: [...input.interventions, ...output.interventions],
+        citations: output.allowed ? getCitations(knowledge, output.content) : [],
+        calculations: response.calculations,
+        conversationId,
+        persona,
+        promptVersion: setup.prompt.version,
+        variant: setup.variant,
+        provider: response.provider,
+        model: response.model,
         success: true 
       });
     } catch (error: any) {
@@ -58,6 +438,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      trackFailedRequest('chat', error).catch((err: any) => {
+        console.error('Failed to track failed request:', err);
+      });
+
       res.status(500).json({ 
         error: error.message || 'Failed to process your request',
         success: false 
@@ -65,134 +449,2233 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // TTS endpoint for generating audio
-  const ttsRequestSchema = z.object({
-    text: z.string().min(1).max(4096),
-    voice: z.enum(['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']).default('nova'),
-    speed: z.number().min(0.25).max(4.0).default(1.0),
-  });
-
-  app.post("/api/tts", async (req, res) => {
-    console.log('[API] Received TTS request');
+  // Streaming chat endpoint - forwards token deltas as Server-Sent Events
+  app.post("/api/chat/stream", rateLimit(RATE_LIMIT_POLICIES.chat), enforceBudget, async (req, res) => {
+    console.log('[API] Received streaming chat request');
     const startTime = Date.now();
+    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+
+    const parsed = chatRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid request format',
+        success: false
+      });
+    }
+    const validatedData = parsed.data;
+    const userId = getSessionUserId(req);
+    const { conversationId } = validatedData;
+    let history: ChatMessage[] = [];
+
+    if (conversationId) {
+      if (!userId) {
+        return res.status(401).json({
+          error: 'Authentication required',
+          success: false
+        });
+      }
+      try {
+        const conversation = await getOwnedConversation(conversationId, userId);
+        if (!conversation) {
+          return res.status(404).json({
+            error: 'Conversation not found',
+            success: false
+          });
+        }
+        history = await loadConversationHistory(conversationId);
+      } catch (error: any) {
+        console.error('Failed to load conversation:', error);
+        return res.status(500).json({
+          error: error.message || 'Failed to load conversation',
+          success: false
+        });
+      }
+    }
+
+    const persona = getRequestedPersona(req, validatedData.persona);
+    if (!persona) {
+      return res.status(400).json({
+        error: 'Invalid X-Persona header',
+        success: false
+      });
+    }
+    let setup;
     try {
-      const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
-      const validatedData = ttsRequestSchema.parse(req.body);
-      console.log('[API] Generating TTS audio...');
-      
-      const audioBuffer = await generateTTSAudio(
-        validatedData.text,
-        validatedData.voice,
-        validatedData.speed
+      setup = await resolveChatSetup(persona, getAssignmentSubject(userId, clientIp));
+    } catch (error: any) {
+      console.error('Failed to load prompt:', error);
+      return res.status(500).json({
+        error: error.message || 'Failed to load prompt',
+        success: false
+      });
+    }
+    if (!setup) {
+      return res.status(400).json({
+        error: `Unknown persona "${persona}"`,
+        success: false
+      });
+    }
+
+    let input;
+    try {
+      input = await moderateInput(validatedData.message, { ipAddress: clientIp, userId });
+    } catch (error: any) {
+      console.error('Moderation failed:', error);
+      return res.status(500).json({
+        error: error.message || 'Failed to process your request',
+        success: false
+      });
+    }
+
+    const knowledge = input.allowed ? await retrieveKnowledge(input.content) : [];
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Refusals are sent as a one-chunk answer so clients need no separate path
+    if (!input.allowed) {
+      sendEvent('delta', { content: input.content });
+      sendEvent('done', {
+        success: true,
+        refused: true,
+        moderation: input.interventions,
+        citations: [],
+        conversationId,
+        persona,
+      });
+      return res.end();
+    }
+
+    // Abort the upstream completion if the client goes away mid-stream
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        console.log('[API] Client disconnected, aborting stream');
+        abortController.abort();
+      }
+    });
+
+    const messageId = randomUUID();
+    // Each sentence is checked by the output guardrails before it is sent
+    const outputModerator = createOutputStreamModerator(
+      { ipAddress: clientIp, userId, messageId },
+      (delta) => sendEvent('delta', { content: delta })
+    );
+
+    try {
+      const result = await streamFinancialResponse(
+        input.content,
+        history,
+        (delta) => outputModerator.push(delta),
+        abortController.signal,
+        { knowledge, ...setup.options }
       );
 
       const duration = Date.now() - startTime;
-      console.log('[API] TTS audio generated, sending to client');
-      
-      trackTTSRequest(clientIp, validatedData.text.length, 'tts-1', duration).catch((err: any) => {
-        console.error('Failed to track TTS request:', err);
+      const inputTokens = result.usage.promptTokens;
+      const outputTokens = result.usage.completionTokens;
+
+      // Feedback is keyed by the analytics record, so it has to exist before messageId is returned
+      const tracked = await trackChatRequest({
+        id: messageId,
+        ipAddress: clientIp,
+        userId,
+        inputTokens,
+        outputTokens,
+        cachedTokens: result.usage.cachedTokens,
+        provider: result.provider,
+        model: result.model,
+        promptVersionId: setup.prompt.promptVersionId,
+        variantId: setup.variant?.id,
+        duration,
+      }).then(() => true, (err: any) => {
+        console.error('Failed to track chat request:', err);
+        return false;
       });
-      
-      res.setHeader('Content-Type', 'audio/mpeg');
-      res.setHeader('Content-Length', audioBuffer.length);
-      res.send(Buffer.from(audioBuffer));
+
+      if (result.aborted) {
+        return;
+      }
+
+      // Sends the held-back end of the answer and any disclaimer; a whole-answer
+      // check that changes what was already sent replaces it
+      const output = await outputModerator.finish(result.content);
+      if (output.replacement !== undefined) {
+        sendEvent('replace', { content: output.replacement });
+      }
+
+      if (conversationId) {
+        await saveExchange(conversationId, input.content, output.content, messageId);
+      }
+
+      console.log('[API] Stream complete, closing connection');
+      sendEvent('done', {
+        success: true,
+        messageId: tracked ? messageId : null,
+        refused: !output.allowed,
+        moderation: [...input.interventions, ...output.interventions],
+        citations: output.allowed ? getCitations(knowledge, output.content) : [],
+        calculations: result.calculations,
+        conversationId,
+        persona,
+        promptVersion: setup.prompt.version,
+        variant: setup.variant,
+        provider: result.provider,
+        model: result.model,
+        usage: { inputTokens, outputTokens, estimated: result.usage.estimated },
+      });
+      res.end();
     } catch (error: any) {
-      console.error('TTS endpoint error:', error);
-      
+      if (abortController.signal.aborted) {
+        return;
+      }
+      console.error('Streaming chat endpoint error:', error);
+      trackFailedRequest('chat', error).catch((err: any) => {
+        console.error('Failed to track failed request:', err);
+      });
+      sendEvent('error', {
+        error: error.message || 'Failed to process your request',
+        success: false
+      });
+      res.end();
+    }
+  });
+
+  // Thumbs up/down on an answer, keyed by the messageId returned with it. A
+  // category flags the answer for review, with an optional comment.
+  app.post("/api/chat/:messageId/feedback", rateLimit(RATE_LIMIT_POLICIES.feedback), async (req, res) => {
+    console.log('[API] Received chat feedback');
+    try {
+      const validatedData = feedbackRequestSchema.parse(req.body);
+      const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+      const userId = getSessionUserId(req);
+
+      const record = await storage.getAnalyticsRecord(req.params.messageId);
+      if (!record || record.type !== 'chat') {
+        return res.status(404).json({
+          error: 'Message not found',
+          success: false
+        });
+      }
+      // Answers given to a logged-in user can only be rated by that user
+      if (record.userId && record.userId !== userId) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          success: false
+        });
+      }
+
+      const feedback = await storage.upsertMessageFeedback({
+        messageId: record.id,
+        rating: validatedData.rating,
+        category: validatedData.category ?? null,
+        comment: validatedData.comment ? scrubPII(validatedData.comment) : null,
+        userId: userId ?? null,
+        ipAddress: hashIp(clientIp),
+      });
+
+      res.json({
+        feedback: {
+          id: feedback.id,
+          messageId: feedback.messageId,
+          rating: feedback.rating,
+          category: feedback.category,
+          comment: feedback.comment,
+        },
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Chat feedback error:', error);
+
       if (error.name === 'ZodError') {
-        return res.status(400).json({ 
+        return res.status(400).json({
           error: 'Invalid request format',
-          success: false 
+          success: false
         });
       }
 
-      res.status(500).json({ 
-        error: error.message || 'Failed to generate audio',
-        success: false 
+      res.status(500).json({
+        error: error.message || 'Failed to save feedback',
+        success: false
       });
     }
   });
 
-  const adminPasswordSchema = z.object({
-    password: z.string().min(1),
+  app.get("/api/calculators", (_req, res) => {
+    res.json({
+      calculators: TAX_CALCULATORS.map(({ name, description, parameters }) => ({ name, description, parameters })),
+      taxYears: SUPPORTED_TAX_YEARS,
+      defaultTaxYear: getDefaultTaxYear(),
+      success: true
+    });
   });
 
-  app.post("/api/admin/verify", async (req, res) => {
-    console.log('[API] Received admin verification request');
+  // The same calculators the chat model uses as tools, for UI widgets
+  app.post("/api/calculators/:name", (req, res) => {
+    console.log('[API] Received calculator request', req.params.name);
     try {
-      const validatedData = adminPasswordSchema.parse(req.body);
-      const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "MKS2005";
-      
-      if (validatedData.password === ADMIN_PASSWORD) {
-        res.json({ 
-          success: true,
-          verified: true 
+      const calculator = getTaxCalculator(req.params.name);
+      if (!calculator) {
+        return res.status(404).json({
+          error: 'Calculator not found',
+          success: false
         });
-      } else {
-        res.json({ 
-          success: true,
-          verified: false 
+      }
+
+      res.json({
+        result: calculator.run(req.body ?? {}),
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Calculator endpoint error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          details: error.issues.map((issue: any) => ({ path: issue.path.join('.'), message: issue.message })),
+          success: false
         });
       }
+
+      res.status(500).json({
+        error: error.message || 'Calculation failed',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/conversations", requireAuth, async (req, res) => {
+    console.log('[API] Received create conversation request');
+    try {
+      const validatedData = createConversationRequestSchema.parse(req.body ?? {});
+      const conversation = await storage.createConversation({
+        ownerId: req.session.userId!,
+        title: validatedData.title || 'New conversation',
+      });
+
+      res.status(201).json({
+        conversation,
+        success: true
+      });
     } catch (error: any) {
-      console.error('Admin verification error:', error);
-      
+      console.error('Create conversation error:', error);
+
       if (error.name === 'ZodError') {
-        return res.status(400).json({ 
+        return res.status(400).json({
           error: 'Invalid request format',
-          success: false 
+          success: false
         });
       }
 
-      res.status(500).json({ 
-        error: error.message || 'Failed to verify admin password',
-        success: false 
+      res.status(500).json({
+        error: error.message || 'Failed to create conversation',
+        success: false
       });
     }
   });
 
-  app.get("/api/analytics", async (req, res) => {
-    console.log('[API] Received analytics request');
+  app.get("/api/conversations", requireAuth, async (req, res) => {
+    console.log('[API] Received list conversations request');
     try {
-      const period = req.query.period as string || 'today';
-      
-      let startDate: Date;
-      const endDate = new Date();
-      
-      switch (period) {
-        case 'today':
-          startDate = new Date();
-          startDate.setHours(0, 0, 0, 0);
-          break;
-        case 'week':
-          startDate = new Date();
-          startDate.setDate(startDate.getDate() - 7);
-          break;
-        case 'month':
-          startDate = new Date();
-          startDate.setMonth(startDate.getMonth() - 1);
-          break;
-        case 'all':
-          startDate = new Date(0);
-          break;
-        default:
-          startDate = new Date();
-          startDate.setHours(0, 0, 0, 0);
+      const conversations = await storage.getConversationsByOwner(req.session.userId!);
+
+      res.json({
+        conversations,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('List conversations error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch conversations',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/conversations/:id", requireAuth, async (req, res) => {
+    console.log('[API] Received get conversation request');
+    try {
+      const conversation = await getOwnedConversation(req.params.id, req.session.userId!);
+      if (!conversation) {
+        return res.status(404).json({
+          error: 'Conversation not found',
+          success: false
+        });
       }
-      
-      const summary = await storage.getAnalyticsSummary(startDate, endDate);
-      const records = await storage.getAllAnalytics(startDate, endDate);
-      
+
+      const messages = await storage.getMessages(conversation.id);
+
       res.json({
-        summary,
-        records,
+        conversation,
+        messages,
         success: true
       });
     } catch (error: any) {
-      console.error('Analytics endpoint error:', error);
-      res.status(500).json({ 
-        error: error.message || 'Failed to fetch analytics',
-        success: false 
+      console.error('Get conversation error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch conversation',
+        success: false
+      });
+    }
+  });
+
+  app.delete("/api/conversations/:id", requireAuth, async (req, res) => {
+    console.log('[API] Received delete conversation request');
+    try {
+      const conversation = await getOwnedConversation(req.params.id, req.session.userId!);
+      if (!conversation) {
+        return res.status(404).json({
+          error: 'Conversation not found',
+          success: false
+        });
+      }
+
+      await storage.deleteConversation(conversation.id);
+
+      res.json({
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Delete conversation error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to delete conversation',
+        success: false
+      });
+    }
+  });
+
+  // TTS endpoint for generating audio. Text longer than one speech request is
+  // split on sentence boundaries and streamed back chunk by chunk.
+  // voice and model are checked against the chosen provider below
+  const ttsRequestSchema = z.object({
+    text: z.string().min(1).max(40000),
+    provider: z.string().optional(),
+    voice: z.string().optional(),
+    speed: z.number().min(0.25).max(4.0).default(1.0),
+    model: z.string().optional(),
+    format: z.enum(AUDIO_FORMATS).default('mp3'),
+  });
+
+  const ttsConcurrency = parseInt(process.env.TTS_CONCURRENCY || '3', 10);
+
+  app.get("/api/tts/voices", (_req, res) => {
+    const defaultProvider = getDefaultTTSProviderName();
+
+    res.json({
+      providers: listTTSProviders().map(provider => ({
+        name: provider.name,
+        description: provider.description,
+        default: provider.name === defaultProvider,
+        configured: provider.isConfigured(),
+        models: provider.models,
+        defaultModel: provider.defaultModel,
+        voices: provider.voices,
+        defaultVoice: provider.defaultVoice,
+        formats: getSupportedFormats(provider.formats),
+      })),
+      success: true
+    });
+  });
+
+  app.post("/api/tts", rateLimit(RATE_LIMIT_POLICIES.tts), enforceBudget, async (req, res) => {
+    console.log('[API] Received TTS request');
+    const startTime = Date.now();
+    try {
+      const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+      const validatedData = ttsRequestSchema.parse(req.body);
+      const { text, speed, format } = validatedData;
+
+      const provider = getTTSProvider(validatedData.provider);
+      if (!provider) {
+        return res.status(400).json({
+          error: `Unknown TTS provider "${validatedData.provider}"`,
+          success: false
+        });
+      }
+
+      const voice = validatedData.voice || provider.defaultVoice;
+      const model = validatedData.model || provider.defaultModel;
+      if (!provider.voices.includes(voice) || !provider.models.includes(model)) {
+        return res.status(400).json({
+          error: `Voice or model is not available for the ${provider.name} TTS provider. See GET /api/tts/voices.`,
+          success: false
+        });
+      }
+
+      const upstreamFormat = getUpstreamFormat(format);
+      if (!provider.formats.includes(upstreamFormat)) {
+        return res.status(400).json({
+          error: `Format "${format}" is not available for the ${provider.name} TTS provider`,
+          success: false
+        });
+      }
+
+      const trackTTS = (cacheHit: boolean, billedCharacters?: number) => {
+        trackTTSRequest({
+          ipAddress: clientIp,
+          userId: getSessionUserId(req),
+          characters: text.length,
+          provider: provider.name,
+          model,
+          duration: Date.now() - startTime,
+          cacheHit,
+          billedCharacters,
+        }).catch((err: any) => {
+          console.error('Failed to track TTS request:', err);
+        });
+      };
+
+      // The cache key identifies the audio content, so it doubles as a strong ETag
+      const etag = `"${getTTSCacheKey({ provider: provider.name, text, voice, speed, model, format })}"`;
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+
+      if (req.headers['if-none-match'] === etag) {
+        trackTTS(true);
+        return res.status(304).end();
+      }
+
+      const synthesize = (chunk: string) => getOrGenerateTTSAudio(
+        { provider: provider.name, text: chunk, voice, speed, model, format: upstreamFormat },
+        () => provider.synthesize(chunk, { voice, speed, model, format: upstreamFormat })
+      ).then(result => ({ ...result, characters: chunk.length }));
+
+      const chunks = splitTextForSpeech(text, provider.maxCharacters);
+      res.setHeader('Content-Type', AUDIO_CONTENT_TYPES[format]);
+
+      if (chunks.length === 1) {
+        console.log('[API] Generating TTS audio...');
+        const { audio, cacheHit } = await synthesize(chunks[0]);
+
+        console.log(`[API] TTS audio ${cacheHit ? 'served from cache' : 'generated'}, sending to client`);
+        trackTTS(cacheHit);
+
+        const body = format === 'wav' ? Buffer.concat([createWavHeader(audio.length), audio]) : audio;
+        res.setHeader('Content-Length', body.length);
+        res.setHeader('X-Cache', cacheHit ? 'HIT' : 'MISS');
+        return res.send(body);
+      }
+
+      console.log(`[API] Streaming TTS audio in ${chunks.length} chunks...`);
+      let billedCharacters = 0;
+      let headersSent = false;
+
+      try {
+        for await (const result of synthesizeInOrder(chunks, ttsConcurrency, synthesize)) {
+          if (res.destroyed) {
+            console.log('[API] Client disconnected, stopping TTS stream');
+            break;
+          }
+          if (!result.cacheHit) {
+            billedCharacters += result.characters;
+          }
+          if (!headersSent) {
+            headersSent = true;
+            if (format === 'wav') {
+              res.write(createWavHeader());
+            }
+          }
+          res.write(result.audio);
+        }
+      } catch (error) {
+        if (!headersSent) {
+          throw error;
+        }
+        // Audio has already been sent, so the best we can do is cut the stream short
+        console.error('TTS stream error:', error);
+        trackTTS(false, billedCharacters);
+        trackFailedRequest('tts', error).catch((err: any) => {
+          console.error('Failed to track failed request:', err);
+        });
+        return res.destroy();
+      }
+
+      trackTTS(billedCharacters === 0, billedCharacters);
+      res.end();
+    } catch (error: any) {
+      console.error('TTS endpoint error:', error);
+      
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          error: 'Invalid request format',
+          success: false 
+        });
+      }
+
+      trackFailedRequest('tts', error).catch((err: any) => {
+        console.error('Failed to track failed request:', err);
+      });
+
+      res.status(500).json({ 
+        error: error.message || 'Failed to generate audio',
+        success: false 
+      });
+    }
+  });
+
+  const sttLimits = getSTTLimits();
+
+  app.get("/api/transcribe/providers", (_req, res) => {
+    const defaultProvider = getDefaultSTTProviderName();
+
+    res.json({
+      providers: listSTTProviders().map(provider => ({
+        name: provider.name,
+        description: provider.description,
+        default: provider.name === defaultProvider,
+        configured: provider.isConfigured(),
+        models: provider.models,
+        defaultModel: provider.defaultModel,
+      })),
+      maxBytes: sttLimits.maxBytes,
+      maxSeconds: sttLimits.maxSeconds,
+      success: true
+    });
+  });
+
+  // Speech-to-text. With chat=true the transcript is also answered by the chat
+  // model (and saved to conversationId, if given) in the same round trip.
+  app.post(
+    "/api/transcribe",
+    rateLimit(RATE_LIMIT_POLICIES.stt),
+    enforceBudget,
+    express.raw({ type: ['audio/*', 'multipart/form-data'], limit: sttLimits.maxBytes }),
+    async (req, res) => {
+      console.log('[API] Received transcribe request');
+      const startTime = Date.now();
+      try {
+        const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+        const userId = getSessionUserId(req);
+
+        const upload = await readAudioUpload(req);
+        if (!upload) {
+          return res.status(400).json({
+            error: 'Send an audio clip as an audio/* body or as the "audio" field of a multipart form',
+            success: false
+          });
+        }
+        const validatedData = transcribeRequestSchema.parse(upload.fields);
+
+        const provider = getSTTProvider(validatedData.provider);
+        if (!provider) {
+          return res.status(400).json({
+            error: `Unknown STT provider "${validatedData.provider}"`,
+            success: false
+          });
+        }
+
+        const model = validatedData.model || provider.defaultModel;
+        if (!provider.models.includes(model)) {
+          return res.status(400).json({
+            error: `Model "${model}" is not available for the ${provider.name} STT provider. See GET /api/transcribe/providers.`,
+            success: false
+          });
+        }
+
+        if (upload.audio.length > provider.maxBytes) {
+          return res.status(413).json({
+            error: `Audio is larger than the ${provider.name} STT provider accepts`,
+            success: false
+          });
+        }
+
+        const wavSeconds = getWavDurationSeconds(upload.audio);
+        if (wavSeconds !== undefined && wavSeconds > sttLimits.maxSeconds) {
+          return res.status(413).json({
+            error: `Audio is longer than ${sttLimits.maxSeconds} seconds`,
+            success: false
+          });
+        }
+
+        const { conversationId } = validatedData;
+        if (conversationId) {
+          if (!userId) {
+            return res.status(401).json({
+              error: 'Authentication required',
+              success: false
+            });
+          }
+          if (!await getOwnedConversation(conversationId, userId)) {
+            return res.status(404).json({
+              error: 'Conversation not found',
+              success: false
+            });
+          }
+        }
+
+        const persona = getRequestedPersona(req, validatedData.persona);
+        if (!persona) {
+          return res.status(400).json({
+            error: 'Invalid X-Persona header',
+            success: false
+          });
+        }
+        const setup = validatedData.chat
+          ? await resolveChatSetup(persona, getAssignmentSubject(userId, clientIp))
+          : null;
+        if (validatedData.chat && !setup) {
+          return res.status(400).json({
+            error: `Unknown persona "${persona}"`,
+            success: false
+          });
+        }
+        // Answering the transcript costs as much as a chat, so it counts against the chat limit too
+        if (validatedData.chat && !await applyRateLimit(req, res, RATE_LIMIT_POLICIES.chat)) {
+          return;
+        }
+
+        console.log('[API] Transcribing audio...');
+        const transcription = await provider.transcribe(upload.audio, {
+          model,
+          filename: upload.filename,
+          mimeType: upload.mimeType,
+          language: validatedData.language,
+        });
+
+        trackSTTRequest({
+          ipAddress: clientIp,
+          userId,
+          seconds: transcription.durationSeconds,
+          provider: provider.name,
+          model,
+          duration: Date.now() - startTime,
+        }).catch((err: any) => {
+          console.error('Failed to track STT request:', err);
+        });
+
+        const transcript = {
+          text: transcription.text,
+          language: transcription.language,
+          durationSeconds: transcription.durationSeconds,
+          provider: provider.name,
+          model,
+        };
+
+        // For formats other than WAV the length is only known once the provider
+        // has transcribed (and billed) the clip, so an over-long clip still gets
+        // its transcript, just not an answer
+        if (transcription.durationSeconds > sttLimits.maxSeconds) {
+          console.log(`[API] Audio was ${transcription.durationSeconds}s, over the ${sttLimits.maxSeconds}s limit`);
+          return res.json({
+            transcript,
+            warning: setup ? `Audio is longer than ${sttLimits.maxSeconds} seconds, so it was not answered` : undefined,
+            success: true
+          });
+        }
+
+        if (!setup || !transcription.text) {
+          return res.json({
+            transcript,
+            success: true
+          });
+        }
+
+        const input = await moderateInput(transcription.text, { ipAddress: clientIp, userId });
+        if (!input.allowed) {
+          return res.json({
+            transcript,
+            message: input.content,
+            refused: true,
+            moderation: input.interventions,
+            conversationId,
+            persona,
+            success: true
+          });
+        }
+
+        console.log('[API] Transcript ready, calling AI...');
+        const chatStartTime = Date.now();
+        const history: ChatMessage[] = conversationId ? await loadConversationHistory(conversationId) : [];
+        const knowledge = await retrieveKnowledge(input.content);
+        const response = await generateFinancialResponse(input.content, history, {
+          knowledge,
+          ...setup.options,
+        });
+
+        const messageId = randomUUID();
+        const output = await moderateOutput(response.content, { ipAddress: clientIp, userId, messageId });
+        // Feedback is keyed by the analytics record, so it has to exist before messageId is returned
+        const tracked = await trackChatRequest({
+          id: messageId,
+          ipAddress: clientIp,
+          userId,
+          inputTokens: response.usage.promptTokens,
+          outputTokens: response.usage.completionTokens,
+          cachedTokens: response.usage.cachedTokens,
+          provider: response.provider,
+          model: response.model,
+          promptVersionId: setup.prompt.promptVersionId,
+          variantId: setup.variant?.id,
+          duration: Date.now() - chatStartTime,
+        }).then(() => true, (err: any) => {
+          console.error('Failed to track chat request:', err);
+          return false;
+        });
+
+        if (conversationId) {
+          await saveExchange(conversationId, input.content, output.content, messageId);
+        }
+
+        res.json({
+          transcript,
+          messageId: tracked ? messageId : null,
+          message: output.content,
+          refused: !output.allowed,
+          moderation: [...input.interventions, ...output.interventions],
+          citations: output.allowed ? getCitations(knowledge, output.content) : [],
+          calculations: response.calculations,
+          conversationId,
+          persona,
+          promptVersion: setup.prompt.version,
+          variant: setup.variant,
+          provider: response.provider,
+          model: response.model,
+          success: true
+        });
+      } catch (error: any) {
+        console.error('Transcribe endpoint error:', error);
+
+        if (error.name === 'ZodError') {
+          return res.status(400).json({
+            error: 'Invalid request format',
+            success: false
+          });
+        }
+
+        trackFailedRequest('stt', error).catch((err: any) => {
+          console.error('Failed to track failed request:', err);
+        });
+
+        res.status(500).json({
+          error: error.message || 'Failed to transcribe audio',
+          success: false
+        });
+      }
+    }
+  );
+
+  // Wav2Lip lip-sync video jobs. Submit JSON { avatarId, text, voice } or a raw
+  // audio body (Content-Type: audio/*) with ?avatarId=
+  app.post(
+    "/api/wav2lip",
+    rateLimit(RATE_LIMIT_POLICIES.video),
+    enforceBudget,
+    express.raw({ type: 'audio/*', limit: '10mb' }),
+    async (req, res) => {
+      console.log('[API] Received Wav2Lip request');
+      try {
+        if (!isWav2LipConfigured()) {
+          return res.status(503).json({
+            error: 'Wav2Lip service is not configured. Please set WAV2LIP_URL.',
+            success: false
+          });
+        }
+
+        const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+        const userId = getSessionUserId(req);
+        let job: VideoJob;
+
+        if (Buffer.isBuffer(req.body)) {
+          const validatedData = wav2lipAudioRequestSchema.parse(req.query);
+          if (req.body.length === 0) {
+            return res.status(400).json({
+              error: 'Audio body cannot be empty',
+              success: false
+            });
+          }
+          const audioType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+          if (!WAV2LIP_AUDIO_TYPES[audioType]) {
+            return res.status(415).json({
+              error: `Unsupported audio type. Send one of: ${Object.keys(WAV2LIP_AUDIO_TYPES).join(', ')}`,
+              success: false
+            });
+          }
+          job = await submitVideoJob({
+            avatarId: validatedData.avatarId,
+            audio: req.body,
+            audioType,
+            ipAddress: clientIp,
+            userId,
+          });
+        } else {
+          const validatedData = wav2lipTextRequestSchema.parse(req.body);
+          const ttsProvider = getTTSProvider();
+          if (validatedData.voice && !ttsProvider?.voices.includes(validatedData.voice)) {
+            return res.status(400).json({
+              error: `Voice "${validatedData.voice}" is not available. See GET /api/tts/voices.`,
+              success: false
+            });
+          }
+          job = await submitVideoJob({
+            avatarId: validatedData.avatarId,
+            text: validatedData.text,
+            voice: validatedData.voice,
+            ipAddress: clientIp,
+            userId,
+          });
+        }
+
+        console.log('[API] Wav2Lip job queued', job.id);
+        res.status(202).json({
+          job: toPublicVideoJob(job),
+          success: true
+        });
+      } catch (error: any) {
+        console.error('Wav2Lip endpoint error:', error);
+
+        if (error.name === 'ZodError') {
+          return res.status(400).json({
+            error: 'Invalid request format',
+            success: false
+          });
+        }
+
+        res.status(500).json({
+          error: error.message || 'Failed to queue video generation',
+          success: false
+        });
+      }
+    }
+  );
+
+  app.get("/api/wav2lip/:id", async (req, res) => {
+    try {
+      const job = await storage.getVideoJob(req.params.id);
+      if (!job || !canAccessVideoJob(job, req)) {
+        return res.status(404).json({
+          error: 'Job not found',
+          success: false
+        });
+      }
+
+      res.json({
+        job: toPublicVideoJob(job),
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Wav2Lip status error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch job',
+        success: false
+      });
+    }
+  });
+
+  // Server-Sent Events stream of status updates, closed once the job finishes
+  app.get("/api/wav2lip/:id/events", async (req, res) => {
+    try {
+      const job = await storage.getVideoJob(req.params.id);
+      if (!job || !canAccessVideoJob(job, req)) {
+        return res.status(404).json({
+          error: 'Job not found',
+          success: false
+        });
+      }
+
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      let updated = false;
+      const sendStatus = (current: VideoJob) => {
+        if (res.writableEnded) {
+          return;
+        }
+        res.write(`event: status\ndata: ${JSON.stringify(toPublicVideoJob(current))}\n\n`);
+        if (isTerminalStatus(current.status)) {
+          videoJobEvents.off(job.id, onUpdate);
+          res.end();
+        }
+      };
+      const onUpdate = (current: VideoJob) => {
+        updated = true;
+        sendStatus(current);
+      };
+
+      // Subscribe before re-reading the job, so a change made after the first
+      // read is either in the re-read or delivered as an event
+      videoJobEvents.on(job.id, onUpdate);
+      res.on('close', () => videoJobEvents.off(job.id, onUpdate));
+      const current = await storage.getVideoJob(job.id);
+      // An event that arrived during the re-read is at least as recent
+      if (!updated) {
+        sendStatus(current ?? job);
+      }
+    } catch (error: any) {
+      console.error('Wav2Lip events error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: error.message || 'Failed to fetch job',
+          success: false
+        });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  app.get("/api/wav2lip/:id/video", async (req, res) => {
+    try {
+      const job = await storage.getVideoJob(req.params.id);
+      if (!job || !canAccessVideoJob(job, req) || job.status !== 'completed' || !job.videoPath) {
+        return res.status(404).json({
+          error: 'Video not found',
+          success: false
+        });
+      }
+
+      res.setHeader('Content-Type', 'video/mp4');
+      res.sendFile(job.videoPath, (err) => {
+        if (err && !res.headersSent) {
+          console.error('Wav2Lip video download error:', err);
+          res.status(404).json({
+            error: 'Video not found',
+            success: false
+          });
+        }
+      });
+    } catch (error: any) {
+      console.error('Wav2Lip video error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch video',
+        success: false
+      });
+    }
+  });
+
+  const adminPasswordSchema = z.object({
+    password: z.string().min(1),
+  });
+
+  app.post("/api/admin/verify", rateLimit(RATE_LIMIT_POLICIES.adminLogin), async (req, res) => {
+    console.log('[API] Received admin verification request');
+    try {
+      const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+      const lockedUntil = getAdminLockout(clientIp);
+
+      if (lockedUntil) {
+        console.log('[API] Admin login locked for', clientIp);
+        return res.status(429).json({
+          error: `Too many failed attempts. Please try again after ${new Date(lockedUntil).toLocaleTimeString()}.`,
+          success: false,
+          retryAfter: lockedUntil
+        });
+      }
+
+      const validatedData = adminPasswordSchema.parse(req.body);
+      
+      if (!verifyAdminPassword(validatedData.password)) {
+        recordFailedAdminAttempt(clientIp);
+        return res.json({ 
+          success: true,
+          verified: false 
+        });
+      }
+
+      clearFailedAdminAttempts(clientIp);
+
+      // Regenerate to avoid session fixation, keeping any logged-in user
+      const userId = req.session.userId;
+      req.session.regenerate((err) => {
+        if (err) {
+          console.error('Session regenerate error:', err);
+          return res.status(500).json({
+            error: 'Failed to start session',
+            success: false
+          });
+        }
+        if (userId) {
+          req.session.userId = userId;
+        }
+        req.session.isAdmin = true;
+        res.json({ 
+          success: true,
+          verified: true 
+        });
+      });
+    } catch (error: any) {
+      console.error('Admin verification error:', error);
+      
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          error: 'Invalid request format',
+          success: false 
+        });
+      }
+
+      res.status(500).json({ 
+        error: error.message || 'Failed to verify admin password',
+        success: false 
+      });
+    }
+  });
+
+  app.put("/api/admin/users/:id/role", requireAdmin, async (req, res) => {
+    console.log('[API] Received update user role request');
+    try {
+      const validatedData = updateUserRoleRequestSchema.parse(req.body);
+      const user = await storage.updateUserRole(req.params.id, validatedData.role);
+
+      if (!user) {
+        return res.status(404).json({
+          error: 'User not found',
+          success: false
+        });
+      }
+
+      res.json({
+        user: toPublicUser(user),
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Update user role error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to update user role',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/pricing", requireAdmin, (_req, res) => {
+    res.json({
+      prices: getPriceCatalogue(),
+      success: true
+    });
+  });
+
+  app.post("/api/admin/pricing/recompute", requireAdmin, async (req, res) => {
+    console.log('[API] Received cost recompute request');
+    try {
+      const validatedData = recomputeCostsRequestSchema.parse(req.body ?? {});
+      const result = await recomputeAnalyticsCosts(validatedData.from, validatedData.to);
+
+      console.log(`[API] Recomputed costs: ${result.updated} of ${result.scanned} records updated`);
+      res.json({
+        ...result,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Cost recompute error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to recompute costs',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/budgets", requireAdmin, async (_req, res) => {
+    console.log('[API] Received list budgets request');
+    try {
+      const budgets = await getBudgetStatuses();
+
+      res.json({
+        budgets,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('List budgets error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch budgets',
+        success: false
+      });
+    }
+  });
+
+  app.put("/api/admin/budgets", requireAdmin, async (req, res) => {
+    console.log('[API] Received update budget request');
+    try {
+      const validatedData = upsertBudgetRequestSchema.parse(req.body);
+      const budget = await storage.upsertBudget({
+        scope: validatedData.scope,
+        period: validatedData.period,
+        subject: validatedData.subject || BUDGET_ALL_SUBJECTS,
+        limitUsd: validatedData.limitUsd.toString(),
+      });
+      invalidateBudgetCache();
+
+      res.json({
+        budget,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Update budget error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to update budget',
+        success: false
+      });
+    }
+  });
+
+  app.delete("/api/admin/budgets/:id", requireAdmin, async (req, res) => {
+    console.log('[API] Received delete budget request');
+    try {
+      const deleted = await storage.deleteBudget(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Budget not found',
+          success: false
+        });
+      }
+      invalidateBudgetCache();
+
+      res.json({
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Delete budget error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to delete budget',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/alerts", requireAdmin, async (_req, res) => {
+    console.log('[API] Received list alerts request');
+    try {
+      const [rules, firings] = await Promise.all([
+        storage.getAlertRules(),
+        storage.getAlertFirings(50),
+      ]);
+
+      res.json({
+        rules,
+        firings,
+        defaultWebhookConfigured: !!process.env.ALERT_WEBHOOK_URL,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('List alerts error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch alerts',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/alerts/firings", requireAdmin, async (req, res) => {
+    console.log('[API] Received list alert firings request');
+    try {
+      const query = listAlertFiringsQuerySchema.parse(req.query);
+      const firings = await storage.getAlertFirings(query.limit, query.ruleId);
+
+      res.json({
+        firings,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('List alert firings error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to fetch alert firings',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/admin/alerts", requireAdmin, async (req, res) => {
+    console.log('[API] Received create alert request');
+    try {
+      const { threshold, type, ...rule } = createAlertRuleRequestSchema.parse(req.body);
+      const created = await storage.createAlertRule({
+        ...rule,
+        threshold: threshold.toString(),
+        type: type ?? null,
+      });
+
+      res.status(201).json({
+        rule: created,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Create alert error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to create alert',
+        success: false
+      });
+    }
+  });
+
+  app.put("/api/admin/alerts/:id", requireAdmin, async (req, res) => {
+    console.log('[API] Received update alert request');
+    try {
+      const { threshold, ...changes } = updateAlertRuleRequestSchema.parse(req.body);
+      const existing = await storage.getAlertRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Alert not found',
+          success: false
+        });
+      }
+      if (threshold !== undefined && existing.metric === 'error_rate' && threshold > 100) {
+        return res.status(400).json({
+          error: 'error_rate thresholds are percentages',
+          success: false
+        });
+      }
+
+      const rule = await storage.updateAlertRule(req.params.id, {
+        ...changes,
+        ...(threshold !== undefined ? { threshold: threshold.toString() } : {}),
+      });
+
+      res.json({
+        rule,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Update alert error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to update alert',
+        success: false
+      });
+    }
+  });
+
+  app.delete("/api/admin/alerts/:id", requireAdmin, async (req, res) => {
+    console.log('[API] Received delete alert request');
+    try {
+      const deleted = await storage.deleteAlertRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Alert not found',
+          success: false
+        });
+      }
+
+      res.json({
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Delete alert error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to delete alert',
+        success: false
+      });
+    }
+  });
+
+  // Checks every enabled rule now instead of waiting for the schedule
+  app.post("/api/admin/alerts/check", requireAdmin, async (_req, res) => {
+    console.log('[API] Received alert check request');
+    try {
+      const results = await checkAlerts();
+      res.json({
+        results,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Alert check error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to check alerts',
+        success: false
+      });
+    }
+  });
+
+  // Sends a sample payload to the rule's webhook; not recorded as a firing
+  app.post("/api/admin/alerts/:id/test", requireAdmin, async (req, res) => {
+    console.log('[API] Received alert test request');
+    try {
+      const rule = await storage.getAlertRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({
+          error: 'Alert not found',
+          success: false
+        });
+      }
+      const url = getWebhookUrl(rule);
+      if (!url) {
+        return res.status(400).json({
+          error: 'No webhook URL is set for this alert or in ALERT_WEBHOOK_URL',
+          success: false
+        });
+      }
+
+      const payload = buildAlertPayload(rule, parseFloat(rule.threshold), new Date());
+      payload.text = `[Test] ${payload.text}`;
+      const delivery = await deliverWebhook(url, payload);
+
+      res.json({
+        ...delivery,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Alert test error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to send test alert',
+        success: false
+      });
+    }
+  });
+
+  // Knowledge base ingestion. Send JSON { title, url, format, content }, or for
+  // larger documents the raw text/markdown, text/html or text/plain body with
+  // ?title=&url= in the query string
+  app.post(
+    "/api/admin/knowledge",
+    requireAdmin,
+    express.text({ type: ['text/markdown', 'text/html', 'text/plain'], limit: '5mb' }),
+    async (req, res) => {
+      console.log('[API] Received knowledge ingest request');
+      try {
+        let input;
+        if (typeof req.body === 'string') {
+          const contentType = req.headers['content-type'] || '';
+          const format = contentType.startsWith('text/html') ? 'html'
+            : contentType.startsWith('text/markdown') ? 'markdown'
+            : 'text';
+          input = ingestKnowledgeRequestSchema.parse({ ...req.query, format, content: req.body });
+        } else {
+          input = ingestKnowledgeRequestSchema.parse(req.body);
+        }
+
+        const { document, chunks } = await ingestKnowledgeDocument(input);
+        console.log(`[API] Ingested knowledge document ${document.id} as ${chunks} passage(s)`);
+
+        res.status(201).json({
+          document: {
+            id: document.id,
+            title: document.title,
+            url: document.url,
+            format: document.format,
+            createdAt: document.createdAt,
+            chunks,
+          },
+          success: true
+        });
+      } catch (error: any) {
+        console.error('Knowledge ingest error:', error);
+
+        if (error.name === 'ZodError') {
+          return res.status(400).json({
+            error: 'Invalid request format',
+            success: false
+          });
+        }
+
+        res.status(500).json({
+          error: error.message || 'Failed to ingest document',
+          success: false
+        });
+      }
+    }
+  );
+
+  app.get("/api/admin/knowledge", requireAdmin, async (_req, res) => {
+    try {
+      const documents = await storage.getKnowledgeDocuments();
+      res.json({
+        documents,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Knowledge list error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch documents',
+        success: false
+      });
+    }
+  });
+
+  // Shows what retrieval would inject into the prompt for a question
+  app.get("/api/admin/knowledge/search", requireAdmin, async (req, res) => {
+    try {
+      const { q } = z.object({ q: z.string().min(1) }).parse(req.query);
+      const passages = await searchKnowledgeBase(q);
+      res.json({
+        passages,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Knowledge search error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to search knowledge base',
+        success: false
+      });
+    }
+  });
+
+  app.delete("/api/admin/knowledge/:id", requireAdmin, async (req, res) => {
+    console.log('[API] Received delete knowledge document request');
+    try {
+      const deleted = await deleteKnowledgeDocument(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Document not found',
+          success: false
+        });
+      }
+
+      res.json({
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Delete knowledge document error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to delete document',
+        success: false
+      });
+    }
+  });
+
+  // Personas with a live prompt, for frontends choosing one
+  app.get("/api/personas", async (_req, res) => {
+    try {
+      const active = (await storage.getPrompts()).filter(prompt => prompt.isActive);
+      const personas = active.map(prompt => ({ name: prompt.persona, description: prompt.description }));
+      if (!personas.some(p => p.name === DEFAULT_PERSONA)) {
+        personas.unshift({ name: DEFAULT_PERSONA, description: 'Built-in UK financial advisor' });
+      }
+
+      res.json({
+        personas,
+        defaultPersona: getDefaultPersona(),
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Personas endpoint error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch personas',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/prompts", requireAdmin, async (req, res) => {
+    try {
+      const persona = typeof req.query.persona === 'string' ? req.query.persona : undefined;
+      const prompts = await storage.getPrompts(persona);
+      res.json({
+        prompts,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Prompt list error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch prompts',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/prompts/:id", requireAdmin, async (req, res) => {
+    try {
+      const prompt = await storage.getPrompt(req.params.id);
+      if (!prompt) {
+        return res.status(404).json({
+          error: 'Prompt not found',
+          success: false
+        });
+      }
+
+      res.json({
+        prompt,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Prompt fetch error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch prompt',
+        success: false
+      });
+    }
+  });
+
+  // Prompts are never edited in place: saving creates the persona's next version
+  app.post("/api/admin/prompts", requireAdmin, async (req, res) => {
+    console.log('[API] Received create prompt request');
+    try {
+      const validatedData = createPromptRequestSchema.parse(req.body);
+      const prompt = await storage.createPrompt({
+        persona: validatedData.persona,
+        content: validatedData.content,
+        description: validatedData.description,
+      }, validatedData.activate);
+      invalidatePromptCache();
+
+      res.status(201).json({
+        prompt,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Create prompt error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to create prompt',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/admin/prompts/:id/activate", requireAdmin, async (req, res) => {
+    console.log('[API] Received activate prompt request');
+    try {
+      const prompt = await storage.activatePrompt(req.params.id);
+      if (!prompt) {
+        return res.status(404).json({
+          error: 'Prompt not found',
+          success: false
+        });
+      }
+      invalidatePromptCache();
+
+      res.json({
+        prompt,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Activate prompt error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to activate prompt',
+        success: false
+      });
+    }
+  });
+
+  app.delete("/api/admin/prompts/:id", requireAdmin, async (req, res) => {
+    console.log('[API] Received delete prompt request');
+    try {
+      const prompt = await storage.getPrompt(req.params.id);
+      if (!prompt) {
+        return res.status(404).json({
+          error: 'Prompt not found',
+          success: false
+        });
+      }
+      if (prompt.isActive) {
+        return res.status(409).json({
+          error: 'The active version of a persona cannot be deleted. Activate another version first.',
+          success: false
+        });
+      }
+      if (!await storage.deletePrompt(prompt.id)) {
+        return res.status(409).json({
+          error: 'This prompt version is used by an experiment variant and cannot be deleted. Delete the experiment first.',
+          success: false
+        });
+      }
+
+      res.json({
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Delete prompt error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to delete prompt',
+        success: false
+      });
+    }
+  });
+
+  // Usage, cost and latency of chats answered with one prompt version
+  app.get("/api/admin/prompts/:id/analytics", requireAdmin, async (req, res) => {
+    try {
+      const prompt = await storage.getPrompt(req.params.id);
+      if (!prompt) {
+        return res.status(404).json({
+          error: 'Prompt not found',
+          success: false
+        });
+      }
+
+      const startDate = getPeriodStartDate(req.query.period as string || 'all');
+      const summary = await storage.getAnalyticsSummary(startDate, new Date(), { promptVersionId: prompt.id });
+
+      res.json({
+        prompt: { id: prompt.id, persona: prompt.persona, version: prompt.version },
+        summary,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Prompt analytics error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch prompt analytics',
+        success: false
+      });
+    }
+  });
+
+  // Review queue of rated and flagged answers, newest first
+  app.get("/api/admin/feedback", requireAdmin, async (req, res) => {
+    try {
+      const filter = listFeedbackQuerySchema.parse(req.query);
+      const { feedback, total } = await storage.getFeedback(filter);
+
+      res.json({
+        feedback,
+        total,
+        limit: filter.limit,
+        offset: filter.offset,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Feedback fetch error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to fetch feedback',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/admin/feedback/:id/review", requireAdmin, async (req, res) => {
+    console.log('[API] Received feedback review');
+    try {
+      const { reviewed } = reviewFeedbackRequestSchema.parse(req.body ?? {});
+      const feedback = await storage.markFeedbackReviewed(req.params.id, reviewed);
+      if (!feedback) {
+        return res.status(404).json({
+          error: 'Feedback not found',
+          success: false
+        });
+      }
+
+      res.json({
+        feedback,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Feedback review error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to update feedback',
+        success: false
+      });
+    }
+  });
+
+  // Guardrail interventions, newest first
+  app.get("/api/admin/moderation", requireAdmin, async (req, res) => {
+    try {
+      const filter = listModerationEventsQuerySchema.parse(req.query);
+      const { events, total } = await storage.getModerationEvents(filter);
+
+      res.json({
+        events,
+        total,
+        limit: filter.limit,
+        offset: filter.offset,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Moderation events fetch error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to fetch moderation events',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/experiments", requireAdmin, async (_req, res) => {
+    try {
+      const experiments = await storage.getExperiments();
+      res.json({
+        experiments,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Experiments fetch error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch experiments',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/admin/experiments/:id", requireAdmin, async (req, res) => {
+    try {
+      const experiment = await storage.getExperiment(req.params.id);
+      if (!experiment) {
+        return res.status(404).json({
+          error: 'Experiment not found',
+          success: false
+        });
+      }
+
+      res.json({
+        experiment,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Experiment fetch error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to fetch experiment',
+        success: false
+      });
+    }
+  });
+
+  // Experiments are created as drafts and only split traffic once started
+  app.post("/api/admin/experiments", requireAdmin, async (req, res) => {
+    console.log('[API] Received create experiment request');
+    try {
+      const validatedData = createExperimentRequestSchema.parse(req.body);
+
+      for (const variant of validatedData.variants) {
+        if (variant.model) {
+          try {
+            parseProviderModel(variant.model);
+          } catch (error: any) {
+            return res.status(400).json({
+              error: `Variant "${variant.name}": ${error.message}`,
+              success: false
+            });
+          }
+        }
+        if (variant.promptVersionId) {
+          const prompt = await storage.getPrompt(variant.promptVersionId);
+          if (!prompt || prompt.persona !== validatedData.persona) {
+            return res.status(400).json({
+              error: `Variant "${variant.name}": prompt version not found for persona "${validatedData.persona}"`,
+              success: false
+            });
+          }
+        }
+      }
+
+      const experiment = await storage.createExperiment(
+        { name: validatedData.name, persona: validatedData.persona },
+        validatedData.variants.map(variant => ({
+          name: variant.name,
+          weight: variant.weight,
+          promptVersionId: variant.promptVersionId ?? null,
+          model: variant.model ?? null,
+          temperature: variant.temperature !== undefined ? variant.temperature.toString() : null,
+        }))
+      );
+
+      res.status(201).json({
+        experiment,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Create experiment error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to create experiment',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/admin/experiments/:id/start", requireAdmin, async (req, res) => {
+    console.log('[API] Received start experiment request');
+    try {
+      const experiment = await storage.getExperiment(req.params.id);
+      if (!experiment) {
+        return res.status(404).json({
+          error: 'Experiment not found',
+          success: false
+        });
+      }
+      if (experiment.status !== 'draft') {
+        return res.status(409).json({
+          error: `Experiment is already ${experiment.status}`,
+          success: false
+        });
+      }
+      // One experiment per persona at a time, so assignments don't overlap
+      const running = await storage.getRunningExperiment(experiment.persona);
+      if (running) {
+        return res.status(409).json({
+          error: `Experiment "${running.name}" is already running for persona "${experiment.persona}"`,
+          success: false
+        });
+      }
+
+      const started = await storage.setExperimentStatus(experiment.id, 'running');
+      invalidateExperimentCache();
+
+      res.json({
+        experiment: started,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Start experiment error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to start experiment',
+        success: false
+      });
+    }
+  });
+
+  app.post("/api/admin/experiments/:id/stop", requireAdmin, async (req, res) => {
+    console.log('[API] Received stop experiment request');
+    try {
+      const experiment = await storage.getExperiment(req.params.id);
+      if (!experiment) {
+        return res.status(404).json({
+          error: 'Experiment not found',
+          success: false
+        });
+      }
+      if (experiment.status !== 'running') {
+        return res.status(409).json({
+          error: 'Experiment is not running',
+          success: false
+        });
+      }
+
+      const stopped = await storage.setExperimentStatus(experiment.id, 'stopped');
+      invalidateExperimentCache();
+
+      res.json({
+        experiment: stopped,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Stop experiment error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to stop experiment',
+        success: false
+      });
+    }
+  });
+
+  // Per-variant usage, cost, latency and user satisfaction. Only covers raw
+  // records: once rolled up (see privacy.ts) chats lose their variant id.
+  app.get("/api/admin/experiments/:id/report", requireAdmin, async (req, res) => {
+    try {
+      const experiment = await storage.getExperiment(req.params.id);
+      if (!experiment) {
+        return res.status(404).json({
+          error: 'Experiment not found',
+          success: false
+        });
+      }
+
+      const startDate = getPeriodStartDate(req.query.period as string || 'all');
+      const endDate = new Date();
+      const variants = await Promise.all(experiment.variants.map(async (variant) => {
+        const [summary, feedback] = await Promise.all([
+          storage.getAnalyticsSummary(startDate, endDate, { variantId: variant.id }),
+          storage.getFeedbackCounts(startDate, endDate, { variantId: variant.id }),
+        ]);
+        const rated = feedback.up + feedback.down;
+
+        return {
+          id: variant.id,
+          name: variant.name,
+          weight: variant.weight,
+          promptVersionId: variant.promptVersionId,
+          model: variant.model,
+          temperature: variant.temperature !== null ? parseFloat(variant.temperature) : null,
+          chats: summary.chatRequests,
+          averageResponseTime: summary.averageResponseTime,
+          totalCost: summary.totalCost,
+          costPerChat: summary.chatRequests > 0 ? summary.totalCost / summary.chatRequests : 0,
+          feedback: {
+            up: feedback.up,
+            down: feedback.down,
+            // Share of rated answers that got a thumbs up
+            satisfaction: rated > 0 ? feedback.up / rated : null,
+          },
+        };
+      }));
+
+      res.json({
+        experiment: {
+          id: experiment.id,
+          name: experiment.name,
+          persona: experiment.persona,
+          status: experiment.status,
+          startedAt: experiment.startedAt,
+          stoppedAt: experiment.stoppedAt,
+        },
+        variants,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Experiment report error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to build experiment report',
+        success: false
+      });
+    }
+  });
+
+  // Everything stored about a user id or IP address (subject access request)
+  app.get("/api/admin/privacy/export", requireAdmin, async (req, res) => {
+    console.log('[API] Received personal data export request');
+    try {
+      const query = personalDataQuerySchema.parse(req.query);
+      const data = await exportPersonalData(toDataSubject(query));
+
+      res.setHeader('Content-Disposition', 'attachment; filename="personal-data.json"');
+      res.json({
+        subject: query.userId ? { userId: query.userId } : { ip: query.ip },
+        exportedAt: new Date(),
+        data,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Personal data export error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to export personal data',
+        success: false
+      });
+    }
+  });
+
+  // Right to erasure: deletes the subject's data and anonymises their analytics
+  app.post("/api/admin/privacy/erase", requireAdmin, async (req, res) => {
+    console.log('[API] Received personal data erasure request');
+    try {
+      const query = personalDataQuerySchema.parse(req.body);
+      const erased = await erasePersonalData(toDataSubject(query));
+      // Erased user and IP budgets must stop applying straight away
+      invalidateBudgetCache();
+
+      res.json({
+        erased,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Personal data erasure error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to erase personal data',
+        success: false
+      });
+    }
+  });
+
+  // Runs the daily retention job now
+  app.post("/api/admin/privacy/retention", requireAdmin, async (_req, res) => {
+    console.log('[API] Received retention run request');
+    try {
+      const result = await runRetention();
+      res.json({
+        ...result,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Retention run error:', error);
+      res.status(500).json({
+        error: error.message || 'Failed to apply retention policy',
+        success: false
+      });
+    }
+  });
+
+  app.get("/api/analytics", requireAdmin, async (req, res) => {
+    console.log('[API] Received analytics request');
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      const startDate = query.from ?? getPeriodStartDate(query.period || 'today');
+      const endDate = query.to ?? new Date();
+
+      const [summary, groups, page] = await Promise.all([
+        storage.getAnalyticsSummary(startDate, endDate),
+        query.groupBy ? storage.getAnalyticsGroups(startDate, endDate, query.groupBy) : Promise.resolve(undefined),
+        storage.getAnalyticsPage(startDate, endDate, { limit: query.limit, cursor: query.cursor }),
+      ]);
+
+      res.json({
+        summary,
+        groupBy: query.groupBy,
+        groups,
+        records: page.records,
+        nextCursor: page.nextCursor,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Analytics endpoint error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({ 
+        error: error.message || 'Failed to fetch analytics',
+        success: false 
+      });
+    }
+  });
+
+  // Streams raw analytics records as CSV or NDJSON, oldest first
+  app.get("/api/analytics/export", requireAdmin, async (req, res) => {
+    console.log('[API] Received analytics export request');
+    try {
+      const query = analyticsExportQuerySchema.parse(req.query);
+      const startDate = query.from ?? new Date(0);
+      const endDate = query.to ?? new Date();
+      const filename = `analytics-${startDate.toISOString().slice(0, 10)}-to-${endDate.toISOString().slice(0, 10)}.${query.format}`;
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[query.format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      await pipeline(createAnalyticsExport(query.format, startDate, endDate), res);
+    } catch (error: any) {
+      console.error('Analytics export error:', error);
+
+      // A failure mid-stream has already cut the response short
+      if (res.destroyed || res.headersSent) {
+        return;
+      }
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to export analytics',
+        success: false
+      });
+    }
+  });
+
+  // Monthly usage and cost per provider, model and type, for invoice reconciliation
+  app.get("/api/analytics/invoice", requireAdmin, async (req, res) => {
+    console.log('[API] Received invoice report request');
+    try {
+      const query = invoiceReportQuerySchema.parse(req.query);
+      const report = await buildInvoiceReport(query.month ?? getPreviousMonth());
+
+      if (query.format === 'csv') {
+        res.setHeader('Content-Type', EXPORT_CONTENT_TYPES.csv);
+        res.setHeader('Content-Disposition', `attachment; filename="invoice-${report.month}.csv"`);
+        return res.send(invoiceReportToCsv(report));
+      }
+
+      res.json({
+        ...report,
+        success: true
+      });
+    } catch (error: any) {
+      console.error('Invoice report error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          success: false
+        });
+      }
+
+      res.status(500).json({
+        error: error.message || 'Failed to build invoice report',
+        success: false
       });
     }
   });
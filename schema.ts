@@ -1,14 +1,20 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, date, integer, bigint, decimal, uuid, jsonb, index, uniqueIndex, primaryKey, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
+  // scrypt hash, see hashPassword in auth.ts
   password: text("password").notNull(),
+  role: varchar("role", { length: 10 }).notNull().default("user"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const userRoles = ['user', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -17,29 +23,67 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export const registerRequestSchema = z.object({
+  username: z.string().trim().min(3).max(50).regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, '_', '.' and '-'"),
+  password: z.string().min(8).max(200),
+});
+
+export const loginRequestSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const updateUserRoleRequestSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+// Session storage table used by connect-pg-simple
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
 export const chatMessageSchema = z.object({
   role: z.enum(['user', 'assistant']),
   content: z.string(),
 });
 
+export const personaNameSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,49}$/, "Persona names are lowercase letters, digits and dashes");
+
 export const chatRequestSchema = z.object({
   message: z.string().min(1, "Message cannot be empty"),
-  conversationHistory: z.array(chatMessageSchema).optional(),
+  conversationId: z.string().uuid().optional(),
+  // Advisor persona; the X-Persona header is used when omitted
+  persona: personaNameSchema.optional(),
 });
 
 export type ChatMessage = z.infer<typeof chatMessageSchema>;
 export type ChatRequest = z.infer<typeof chatRequestSchema>;
 
+export const analyticsTypes = ['chat', 'tts', 'video', 'stt'] as const;
+export type AnalyticsType = typeof analyticsTypes[number];
+
 export const analyticsRecordSchema = z.object({
   id: z.string(),
   timestamp: z.date(),
-  type: z.enum(['chat', 'tts']),
+  type: z.enum(analyticsTypes),
   ipAddress: z.string(),
+  userId: z.string().optional(),
   inputTokens: z.number().optional(),
   outputTokens: z.number().optional(),
+  cachedTokens: z.number().optional(),
   characters: z.number().optional(),
+  audioSeconds: z.number().optional(),
+  provider: z.string().optional(),
   model: z.string(),
   cost: z.number(),
+  priced: z.boolean(),
+  cacheHit: z.boolean(),
+  promptVersionId: z.string().optional(),
+  variantId: z.string().optional(),
   duration: z.number(),
 });
 
@@ -47,13 +91,30 @@ export const analyticsSummarySchema = z.object({
   totalRequests: z.number(),
   chatRequests: z.number(),
   ttsRequests: z.number(),
+  videoRequests: z.number(),
+  sttRequests: z.number(),
   totalCost: z.number(),
   chatCost: z.number(),
   ttsCost: z.number(),
+  videoCost: z.number(),
+  sttCost: z.number(),
   totalTokens: z.number(),
   totalCharacters: z.number(),
+  totalAudioSeconds: z.number(),
   averageResponseTime: z.number(),
+  // Latency percentiles in ms, over records not yet rolled up
+  p50ResponseTime: z.number(),
+  p95ResponseTime: z.number(),
+  p99ResponseTime: z.number(),
   uniqueUsers: z.number(),
+  unpricedRequests: z.number(),
+  cacheHits: z.number(),
+  // What cache hits would have cost at current prices
+  cacheSavings: z.number(),
+  // First and last rolled-up day counted (YYYY-MM-DD, UTC). Rolled-up days
+  // only have daily totals, so they count in full even when the range starts
+  // or ends part-way through one. Null when no rolled-up day was counted.
+  rolledUpDays: z.object({ from: z.string(), to: z.string() }).nullable(),
   period: z.string(),
   startDate: z.date(),
   endDate: z.date(),
@@ -62,23 +123,541 @@ export const analyticsSummarySchema = z.object({
 export type AnalyticsRecord = z.infer<typeof analyticsRecordSchema>;
 export type AnalyticsSummary = z.infer<typeof analyticsSummarySchema>;
 
+export const analyticsGroupBys = ['hour', 'day', 'week', 'model', 'type', 'user'] as const;
+export type AnalyticsGroupBy = typeof analyticsGroupBys[number];
+
+// Opaque position in the records list, as returned in nextCursor
+export const analyticsCursorSchema = z.string().transform((value, ctx) => {
+  try {
+    const [at, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof at === 'string' && typeof id === 'string') {
+      return { at, id };
+    }
+  } catch {
+    // Reported below
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+  return z.NEVER;
+});
+
+export type AnalyticsCursor = z.infer<typeof analyticsCursorSchema>;
+
+export const analyticsQuerySchema = z.object({
+  // today, week, month or all; ignored when from is given
+  period: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  groupBy: z.enum(analyticsGroupBys).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  cursor: analyticsCursorSchema.optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to',
+});
+
+export const analyticsExportFormats = ['csv', 'ndjson'] as const;
+export type AnalyticsExportFormat = typeof analyticsExportFormats[number];
+
+export const analyticsExportQuerySchema = z.object({
+  format: z.enum(analyticsExportFormats).default('csv'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to',
+});
+
+export const invoiceReportQuerySchema = z.object({
+  // Calendar month in UTC, e.g. 2025-06; defaults to last month
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
 export const analytics = pgTable("analytics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   type: varchar("type", { length: 10 }).notNull(),
+  // Salted hash of the client IP; see hashIp in privacy.ts
   ipAddress: text("ip_address").notNull(),
+  userId: varchar("user_id"),
   inputTokens: integer("input_tokens"),
   outputTokens: integer("output_tokens"),
+  cachedTokens: integer("cached_tokens"),
   characters: integer("characters"),
+  audioSeconds: decimal("audio_seconds", { precision: 10, scale: 2 }),
+  provider: text("provider"),
   model: text("model").notNull(),
   cost: decimal("cost", { precision: 10, scale: 6 }).notNull(),
+  // False when the model was missing from the price catalogue
+  priced: boolean("priced").notNull().default(true),
+  // Served from cache, so no provider cost was incurred
+  cacheHit: boolean("cache_hit").notNull().default(false),
+  // System prompt version used for chat requests; null for the built-in prompt
+  promptVersionId: varchar("prompt_version_id"),
+  // Experiment variant the chat was assigned to, if an experiment was running
+  variantId: varchar("variant_id"),
   duration: integer("duration").notNull(),
-});
+}, (table) => ({
+  promptVersionIdx: index("analytics_prompt_version_idx").on(table.promptVersionId),
+  variantIdx: index("analytics_variant_idx").on(table.variantId),
+}));
 
 export const insertAnalyticsSchema = createInsertSchema(analytics).omit({
-  id: true,
   timestamp: true,
 });
 
 export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
 export type Analytics = typeof analytics.$inferSelect;
+
+// Requests that failed with a server or provider error; successful requests are
+// in analytics. Used for error-rate alerts.
+export const requestFailures = pgTable("request_failures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  type: varchar("type", { length: 10 }).notNull(),
+  error: text("error").notNull(),
+}, (table) => ({
+  timestampIdx: index("request_failures_timestamp_idx").on(table.timestamp),
+}));
+
+export type RequestFailure = typeof requestFailures.$inferSelect;
+export type InsertRequestFailure = typeof requestFailures.$inferInsert;
+
+// Analytics older than the retention period, rolled up per day. Rows carry no
+// IP or user, so uniqueUsers can't be derived from them.
+export const analyticsDaily = pgTable("analytics_daily", {
+  day: date("day", { mode: "string" }).notNull(),
+  type: varchar("type", { length: 10 }).notNull(),
+  // Empty when the raw records had no provider
+  provider: text("provider").notNull().default(""),
+  model: text("model").notNull(),
+  requests: integer("requests").notNull(),
+  inputTokens: bigint("input_tokens", { mode: "number" }).notNull().default(0),
+  outputTokens: bigint("output_tokens", { mode: "number" }).notNull().default(0),
+  characters: bigint("characters", { mode: "number" }).notNull().default(0),
+  audioSeconds: decimal("audio_seconds", { precision: 14, scale: 2 }).notNull().default("0"),
+  cost: decimal("cost", { precision: 14, scale: 6 }).notNull(),
+  totalDuration: bigint("total_duration", { mode: "number" }).notNull(),
+  unpricedRequests: integer("unpriced_requests").notNull().default(0),
+  cacheHits: integer("cache_hits").notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.day, table.type, table.provider, table.model] }),
+}));
+
+export type AnalyticsDaily = typeof analyticsDaily.$inferSelect;
+export type InsertAnalyticsDaily = typeof analyticsDaily.$inferInsert;
+
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: text("owner_id").notNull(),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  ownerId: true,
+  title: true,
+});
+
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+
+export const messages = pgTable("messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 10 }).notNull(),
+  content: text("content").notNull(),
+  // messageId (analytics record id) of the answer, on both messages of an
+  // exchange, so feedback reviewers can see what was asked and answered
+  answerId: varchar("answer_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  answerIdx: index("messages_answer_idx").on(table.answerId),
+}));
+
+export const insertMessageSchema = createInsertSchema(messages).pick({
+  conversationId: true,
+  role: true,
+  content: true,
+  answerId: true,
+});
+
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Message = typeof messages.$inferSelect;
+
+export const createConversationRequestSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+});
+
+export const recomputeCostsRequestSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const budgetScopes = ['global', 'ip', 'user'] as const;
+export const budgetPeriods = ['day', 'month'] as const;
+export type BudgetScope = typeof budgetScopes[number];
+export type BudgetPeriod = typeof budgetPeriods[number];
+
+// Subject used for global budgets and for the default limit applied to every IP or user
+export const BUDGET_ALL_SUBJECTS = '*';
+
+export const budgets = pgTable("budgets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: varchar("scope", { length: 10 }).notNull(),
+  period: varchar("period", { length: 10 }).notNull(),
+  // An IP address or user id, or '*' for the default limit in the scope
+  subject: text("subject").notNull().default(BUDGET_ALL_SUBJECTS),
+  limitUsd: decimal("limit_usd", { precision: 10, scale: 4 }).notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  scopePeriodSubjectIdx: uniqueIndex("budgets_scope_period_subject_idx").on(table.scope, table.period, table.subject),
+}));
+
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = typeof budgets.$inferInsert;
+
+export const upsertBudgetRequestSchema = z.object({
+  scope: z.enum(budgetScopes),
+  period: z.enum(budgetPeriods),
+  subject: z.string().min(1).optional(),
+  limitUsd: z.number().nonnegative(),
+}).refine(
+  data => data.scope !== 'global' || !data.subject || data.subject === BUDGET_ALL_SUBJECTS,
+  { message: "Global budgets cannot have a subject", path: ['subject'] }
+);
+
+// Per-window request counters for the Postgres rate limit store
+export const rateLimitHits = pgTable("rate_limit_hits", {
+  key: text("key").notNull(),
+  windowStart: bigint("window_start", { mode: "number" }).notNull(),
+  count: integer("count").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.key, table.windowStart] }),
+  expiresAtIdx: index("rate_limit_hits_expires_at_idx").on(table.expiresAt),
+}));
+
+export const videoJobStatuses = ['queued', 'processing', 'completed', 'failed'] as const;
+export type VideoJobStatus = typeof videoJobStatuses[number];
+
+export const videoJobs = pgTable("video_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: varchar("status", { length: 12 }).notNull().default("queued"),
+  avatarId: text("avatar_id").notNull(),
+  // Either text to synthesize or an uploaded audio file
+  text: text("text"),
+  voice: varchar("voice", { length: 20 }),
+  audioPath: text("audio_path"),
+  // Content-Type of the uploaded audio, passed on to the worker
+  audioType: varchar("audio_type", { length: 50 }),
+  videoPath: text("video_path"),
+  error: text("error"),
+  ipAddress: text("ip_address").notNull(),
+  userId: varchar("user_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type VideoJob = typeof videoJobs.$inferSelect;
+export type InsertVideoJob = typeof videoJobs.$inferInsert;
+
+export const wav2lipTextRequestSchema = z.object({
+  avatarId: z.string().min(1).max(100),
+  text: z.string().min(1).max(4096),
+  // Must be a voice of the default TTS provider; see GET /api/tts/voices
+  voice: z.string().optional(),
+});
+
+export const wav2lipAudioRequestSchema = z.object({
+  avatarId: z.string().min(1).max(100),
+});
+
+export const knowledgeDocumentFormats = ['markdown', 'html', 'text'] as const;
+export type KnowledgeDocumentFormat = typeof knowledgeDocumentFormats[number];
+
+// Guidance ingested by admins to ground chat answers; see knowledgeBase.ts
+export const knowledgeDocuments = pgTable("knowledge_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  url: text("url"),
+  format: varchar("format", { length: 10 }).notNull(),
+  // Original source as submitted
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Plain-text passages retrieved into the prompt
+export const knowledgeChunks = pgTable("knowledge_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => knowledgeDocuments.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  // Nearest heading above the passage, if any
+  heading: text("heading"),
+  content: text("content").notNull(),
+}, (table) => ({
+  documentIdx: index("knowledge_chunks_document_idx").on(table.documentId),
+}));
+
+export type KnowledgeDocument = typeof knowledgeDocuments.$inferSelect;
+export type InsertKnowledgeDocument = typeof knowledgeDocuments.$inferInsert;
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+export type InsertKnowledgeChunk = Omit<typeof knowledgeChunks.$inferInsert, 'documentId'>;
+
+export const ingestKnowledgeRequestSchema = z.object({
+  title: z.string().min(1).max(300),
+  url: z.string().url().optional(),
+  format: z.enum(knowledgeDocumentFormats).default('markdown'),
+  content: z.string().min(1).max(2_000_000),
+});
+
+// Query string (raw audio body) or form fields (multipart upload) for POST /api/transcribe
+export const transcribeRequestSchema = z.object({
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  language: z.string().regex(/^[a-z]{2}$/).optional(),
+  // Answer the transcript with the chat model in the same request
+  chat: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  conversationId: z.string().uuid().optional(),
+  persona: personaNameSchema.optional(),
+});
+
+// Advisor system prompts, versioned per persona. Versions are immutable; editing
+// a prompt creates a new version, and one version per persona is active.
+export const prompts = pgTable("prompts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  persona: varchar("persona", { length: 50 }).notNull(),
+  version: integer("version").notNull(),
+  content: text("content").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  personaVersionIdx: uniqueIndex("prompts_persona_version_idx").on(table.persona, table.version),
+}));
+
+export type Prompt = typeof prompts.$inferSelect;
+export type InsertPrompt = typeof prompts.$inferInsert;
+
+export const createPromptRequestSchema = z.object({
+  persona: personaNameSchema,
+  content: z.string().min(1).max(20000),
+  description: z.string().max(500).optional(),
+  // Make this the persona's live prompt straight away
+  activate: z.boolean().default(false),
+});
+
+export const experimentStatuses = ['draft', 'running', 'stopped'] as const;
+export type ExperimentStatus = typeof experimentStatuses[number];
+
+// Prompt/model A/B tests. While an experiment is running, chats for its persona
+// are split between its variants; see experiments.ts.
+export const experiments = pgTable("experiments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  persona: varchar("persona", { length: 50 }).notNull(),
+  status: varchar("status", { length: 10 }).notNull().default("draft"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  stoppedAt: timestamp("stopped_at"),
+});
+
+export const experimentVariants = pgTable("experiment_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  experimentId: varchar("experiment_id").notNull().references(() => experiments.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Relative share of traffic
+  weight: integer("weight").notNull().default(1),
+  // Each override falls back to the persona's normal setup when null
+  promptVersionId: varchar("prompt_version_id").references(() => prompts.id),
+  // "provider:model", e.g. "openai:gpt-4o-mini"
+  model: text("model"),
+  temperature: decimal("temperature", { precision: 3, scale: 2 }),
+}, (table) => ({
+  experimentIdx: index("experiment_variants_experiment_idx").on(table.experimentId),
+}));
+
+export type Experiment = typeof experiments.$inferSelect;
+export type ExperimentVariant = typeof experimentVariants.$inferSelect;
+export type InsertExperimentVariant = Omit<typeof experimentVariants.$inferInsert, 'experimentId'>;
+
+export const createExperimentRequestSchema = z.object({
+  name: z.string().min(1).max(200),
+  persona: personaNameSchema.default('default'),
+  variants: z.array(z.object({
+    name: z.string().min(1).max(100),
+    weight: z.number().int().min(1).max(1000).default(1),
+    promptVersionId: z.string().uuid().optional(),
+    model: z.string().regex(/^[a-z]+(:.+)?$/).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+  })).min(2).max(10),
+});
+
+export const feedbackRatings = ['up', 'down'] as const;
+export type FeedbackRating = typeof feedbackRatings[number];
+
+// Why an answer was flagged
+export const feedbackCategories = ['incorrect', 'outdated', 'unclear', 'unsafe'] as const;
+export type FeedbackCategory = typeof feedbackCategories[number];
+
+// User feedback on a chat answer. messageId is the answer's analytics record id;
+// records with feedback are never rolled up, so feedback outlives retention.
+export const messageFeedback = pgTable("message_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => analytics.id),
+  rating: varchar("rating", { length: 4 }).notNull(),
+  category: varchar("category", { length: 10 }),
+  comment: text("comment"),
+  userId: varchar("user_id"),
+  ipAddress: text("ip_address").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Set once a reviewer has dealt with the feedback; cleared if it is resubmitted
+  reviewedAt: timestamp("reviewed_at"),
+}, (table) => ({
+  // One piece of feedback per answer; resubmitting replaces it
+  messageIdx: uniqueIndex("message_feedback_message_idx").on(table.messageId),
+  createdAtIdx: index("message_feedback_created_at_idx").on(table.createdAt),
+}));
+
+export type MessageFeedback = typeof messageFeedback.$inferSelect;
+export type InsertMessageFeedback = typeof messageFeedback.$inferInsert;
+
+export const feedbackRequestSchema = z.object({
+  rating: z.enum(feedbackRatings),
+  category: z.enum(feedbackCategories).optional(),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const feedbackStatuses = ['open', 'reviewed'] as const;
+
+export const listFeedbackQuerySchema = z.object({
+  rating: z.enum(feedbackRatings).optional(),
+  category: z.enum(feedbackCategories).optional(),
+  // Only feedback with a category
+  flagged: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+  status: z.enum(feedbackStatuses).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type FeedbackFilter = z.infer<typeof listFeedbackQuerySchema>;
+
+export const reviewFeedbackRequestSchema = z.object({
+  // false reopens feedback that was marked reviewed by mistake
+  reviewed: z.boolean().default(true),
+});
+
+export const moderationStages = ['input', 'output'] as const;
+export type ModerationStage = typeof moderationStages[number];
+export const moderationActions = ['refuse', 'redact', 'disclaimer'] as const;
+export type ModerationAction = typeof moderationActions[number];
+
+// Each time a guardrail changed or refused a chat; see moderation.ts. Message
+// text is not stored.
+export const moderationEvents = pgTable("moderation_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stage: varchar("stage", { length: 10 }).notNull(),
+  action: varchar("action", { length: 10 }).notNull(),
+  rule: varchar("rule", { length: 50 }).notNull(),
+  reason: text("reason").notNull(),
+  // Analytics id of the answer, for output interventions
+  messageId: varchar("message_id"),
+  userId: varchar("user_id"),
+  ipAddress: text("ip_address").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  createdAtIdx: index("moderation_events_created_at_idx").on(table.createdAt),
+}));
+
+export type ModerationEvent = typeof moderationEvents.$inferSelect;
+export type InsertModerationEvent = typeof moderationEvents.$inferInsert;
+
+export const listModerationEventsQuerySchema = z.object({
+  stage: z.enum(moderationStages).optional(),
+  action: z.enum(moderationActions).optional(),
+  rule: z.string().max(50).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ModerationEventFilter = z.infer<typeof listModerationEventsQuerySchema>;
+
+// Whose personal data an export or erasure covers: a user id or a raw IP
+export const personalDataQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  ip: z.string().ip().optional(),
+}).refine(query => !!query.userId !== !!query.ip, {
+  message: 'Give exactly one of userId or ip',
+});
+
+export const alertMetrics = ['spend', 'error_rate', 'average_duration'] as const;
+export type AlertMetric = typeof alertMetrics[number];
+
+// Usage alerts checked on a schedule; see alerts.ts
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  metric: varchar("metric", { length: 20 }).notNull(),
+  // USD (not GBP) for spend, percent for error_rate, ms for average_duration
+  threshold: decimal("threshold", { precision: 12, scale: 4 }).notNull(),
+  windowMinutes: integer("window_minutes").notNull().default(60),
+  // Only count one request type; null for all
+  type: varchar("type", { length: 10 }),
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(60),
+  // Null to use ALERT_WEBHOOK_URL
+  webhookUrl: text("webhook_url"),
+  enabled: boolean("enabled").notNull().default(true),
+  lastFiredAt: timestamp("last_fired_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = typeof alertRules.$inferInsert;
+
+export const alertFirings = pgTable("alert_firings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ruleId: varchar("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  firedAt: timestamp("fired_at").notNull().defaultNow(),
+  value: decimal("value", { precision: 14, scale: 4 }).notNull(),
+  threshold: decimal("threshold", { precision: 12, scale: 4 }).notNull(),
+  delivered: boolean("delivered").notNull(),
+  // Webhook response status, or the delivery error
+  statusCode: integer("status_code"),
+  error: text("error"),
+}, (table) => ({
+  ruleFiredAtIdx: index("alert_firings_rule_fired_at_idx").on(table.ruleId, table.firedAt),
+}));
+
+export type AlertFiring = typeof alertFirings.$inferSelect;
+export type InsertAlertFiring = typeof alertFirings.$inferInsert;
+
+export const createAlertRuleRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  metric: z.enum(alertMetrics),
+  threshold: z.number().positive(),
+  windowMinutes: z.number().int().min(1).max(1440).default(60),
+  type: z.enum(analyticsTypes).optional(),
+  cooldownMinutes: z.number().int().min(0).max(10080).default(60),
+  webhookUrl: z.string().url().optional(),
+  enabled: z.boolean().default(true),
+}).refine(rule => rule.metric !== 'error_rate' || rule.threshold <= 100, {
+  message: 'error_rate thresholds are percentages',
+  path: ['threshold'],
+});
+
+export const updateAlertRuleRequestSchema = z.object({
+  threshold: z.number().positive().optional(),
+  windowMinutes: z.number().int().min(1).max(1440).optional(),
+  cooldownMinutes: z.number().int().min(0).max(10080).optional(),
+  webhookUrl: z.string().url().nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const listAlertFiringsQuerySchema = z.object({
+  ruleId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -1,18 +1,380 @@
-import { type User, type InsertUser, type Analytics, type InsertAnalytics, type AnalyticsSummary } from "./schema";
+import {
+  type User,
+  type InsertUser,
+  type UserRole,
+  type Analytics,
+  type InsertAnalytics,
+  type AnalyticsSummary,
+  type Conversation,
+  type InsertConversation,
+  type Message,
+  type InsertMessage,
+  type Budget,
+  type InsertBudget,
+  type VideoJob,
+  type InsertVideoJob,
+  type KnowledgeDocument,
+  type InsertKnowledgeDocument,
+  type InsertKnowledgeChunk,
+  type Prompt,
+  type Experiment,
+  type ExperimentStatus,
+  type ExperimentVariant,
+  type InsertExperimentVariant,
+  type MessageFeedback,
+  type InsertMessageFeedback,
+  type FeedbackFilter,
+  type ModerationEvent,
+  type InsertModerationEvent,
+  type ModerationEventFilter,
+  type AnalyticsGroupBy,
+  type AnalyticsCursor,
+  type InsertRequestFailure,
+  type AlertRule,
+  type InsertAlertRule,
+  type AlertFiring,
+  type InsertAlertFiring,
+} from "./schema";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
   createAnalyticsRecord(record: InsertAnalytics): Promise<Analytics>;
-  getAnalyticsSummary(startDate: Date, endDate: Date): Promise<AnalyticsSummary>;
-  getAllAnalytics(startDate?: Date, endDate?: Date): Promise<Analytics[]>;
+  getAnalyticsSummary(startDate: Date, endDate: Date, filter?: AnalyticsFilter): Promise<AnalyticsSummary>;
+  getAnalyticsPage(startDate: Date, endDate: Date, options: AnalyticsPageOptions, filter?: AnalyticsFilter): Promise<AnalyticsPage>;
+  getAnalyticsGroups(startDate: Date, endDate: Date, groupBy: AnalyticsGroupBy, filter?: AnalyticsFilter): Promise<AnalyticsGroup[]>;
+  getInvoiceLines(startDate: Date, endDate: Date): Promise<InvoiceLine[]>;
+  updateAnalyticsCosts(updates: AnalyticsCostUpdate[]): Promise<void>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  getConversationsByOwner(ownerId: string): Promise<Conversation[]>;
+  deleteConversation(id: string): Promise<void>;
+  touchConversation(id: string): Promise<void>;
+  addMessage(message: InsertMessage): Promise<Message>;
+  getMessages(conversationId: string, limit?: number): Promise<Message[]>;
+  getSpend(since: Date, filter?: { ipAddress?: string; userId?: string }): Promise<number>;
+  getBudgets(): Promise<Budget[]>;
+  upsertBudget(budget: InsertBudget): Promise<Budget>;
+  deleteBudget(id: string): Promise<boolean>;
+  createVideoJob(job: InsertVideoJob): Promise<VideoJob>;
+  getVideoJob(id: string): Promise<VideoJob | undefined>;
+  updateVideoJob(id: string, update: Partial<InsertVideoJob>): Promise<VideoJob | undefined>;
+  getUnfinishedVideoJobs(): Promise<VideoJob[]>;
+  createKnowledgeDocument(document: InsertKnowledgeDocument, chunks: InsertKnowledgeChunk[]): Promise<KnowledgeDocument>;
+  getKnowledgeDocuments(): Promise<KnowledgeDocumentSummary[]>;
+  deleteKnowledgeDocument(id: string): Promise<boolean>;
+  getKnowledgePassages(): Promise<KnowledgePassage[]>;
+  createPrompt(prompt: { persona: string; content: string; description?: string }, activate: boolean): Promise<Prompt>;
+  getPrompts(persona?: string): Promise<Prompt[]>;
+  getPrompt(id: string): Promise<Prompt | undefined>;
+  getActivePrompt(persona: string): Promise<Prompt | undefined>;
+  activatePrompt(id: string): Promise<Prompt | undefined>;
+  deletePrompt(id: string): Promise<boolean>;
+  createExperiment(experiment: { name: string; persona: string }, variants: InsertExperimentVariant[]): Promise<ExperimentWithVariants>;
+  getExperiments(): Promise<Experiment[]>;
+  getExperiment(id: string): Promise<ExperimentWithVariants | undefined>;
+  getRunningExperiment(persona: string): Promise<ExperimentWithVariants | undefined>;
+  setExperimentStatus(id: string, status: ExperimentStatus): Promise<Experiment | undefined>;
+  getAnalyticsRecord(id: string): Promise<Analytics | undefined>;
+  upsertMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback>;
+  getFeedbackCounts(startDate: Date, endDate: Date, filter: AnalyticsFilter): Promise<{ up: number; down: number }>;
+  getFeedback(filter: FeedbackFilter): Promise<{ feedback: FeedbackListItem[]; total: number }>;
+  markFeedbackReviewed(id: string, reviewed: boolean): Promise<MessageFeedback | undefined>;
+  createModerationEvents(events: InsertModerationEvent[]): Promise<void>;
+  getModerationEvents(filter: ModerationEventFilter): Promise<{ events: ModerationEvent[]; total: number }>;
+  getUnhashedIpAddresses(): Promise<string[]>;
+  replaceIpAddress(from: string, to: string): Promise<void>;
+  rollUpAnalytics(before: Date): Promise<{ days: number; records: number }>;
+  getPersonalData(subject: PersonalDataSubject): Promise<PersonalDataExport>;
+  erasePersonalData(subject: PersonalDataSubject): Promise<PersonalDataErasure>;
+  createRequestFailure(failure: InsertRequestFailure): Promise<void>;
+  deleteRequestFailures(before: Date): Promise<number>;
+  getAlertWindowStats(since: Date, type?: string): Promise<AlertWindowStats>;
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, changes: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
+  claimAlertRule(id: string, firedAt: Date, cooldownStart: Date): Promise<boolean>;
+  releaseAlertRule(id: string, firedAt: Date, previous: Date | null): Promise<void>;
+  createAlertFiring(firing: InsertAlertFiring): Promise<AlertFiring>;
+  getAlertFirings(limit: number, ruleId?: string): Promise<AlertFiring[]>;
+}
+
+export interface AnalyticsFilter {
+  promptVersionId?: string;
+  variantId?: string;
+}
+
+export interface AnalyticsTotals {
+  requests: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  audioSeconds: number;
+  totalDuration: number;
+  unpricedRequests: number;
+  cacheHits: number;
+}
+
+// One bucket of a groupBy breakdown: an hour/day/week (UTC), model, type or user
+export interface AnalyticsGroup extends AnalyticsTotals {
+  key: string;
+  averageResponseTime: number;
+  // Over records not yet rolled up; null when the group only has rolled-up days
+  p50ResponseTime: number | null;
+  p95ResponseTime: number | null;
+  p99ResponseTime: number | null;
+  uniqueUsers: number;
+}
+
+export interface AnalyticsCostUpdate {
+  id: string;
+  cost: string;
+  priced: boolean;
+}
+
+export interface AnalyticsPageOptions {
+  limit: number;
+  cursor?: AnalyticsCursor;
+  // Oldest first instead of newest first
+  ascending?: boolean;
+}
+
+// nextCursor is null on the last page
+export interface AnalyticsPage {
+  records: Analytics[];
+  nextCursor: string | null;
+}
+
+// Usage billed for one provider, model and request type
+export interface InvoiceLine extends AnalyticsTotals {
+  // Empty for records from before providers were tracked
+  provider: string;
+  model: string;
+  type: string;
+}
+
+// Usage since the start of an alert window
+export interface AlertWindowStats {
+  requests: number;
+  failures: number;
+  cost: number;
+  // Null when there were no successful requests
+  averageDuration: number | null;
+}
+
+export type ExperimentWithVariants = Experiment & { variants: ExperimentVariant[] };
+
+// Feedback with the request it was about, for reviewers. The question and
+// answer are the scrubbed conversation messages, null when the chat wasn't
+// saved to a conversation (or the conversation has since been deleted)
+export type FeedbackListItem = MessageFeedback & {
+  message: Pick<Analytics, 'timestamp' | 'provider' | 'model' | 'promptVersionId' | 'variantId'> & {
+    question: string | null;
+    answer: string | null;
+  };
+};
+
+// Data is looked up by user id, or by the hash of an IP address. Per-IP budgets
+// are keyed by the address itself, so erasing them needs the raw `ip`.
+export type PersonalDataSubject =
+  | { userId: string; ipHash?: undefined; ip?: undefined }
+  | { ipHash: string; ip?: string; userId?: undefined };
+
+export interface PersonalDataExport {
+  user: Omit<User, 'password'> | null;
+  analytics: Analytics[];
+  feedback: MessageFeedback[];
+  moderationEvents: ModerationEvent[];
+  conversations: (Conversation & { messages: Message[] })[];
+  videoJobs: VideoJob[];
+}
+
+export interface PersonalDataErasure {
+  // Analytics rows are kept for cost reporting with the user and IP removed
+  analyticsAnonymised: number;
+  feedbackDeleted: number;
+  moderationEventsDeleted: number;
+  conversationsDeleted: number;
+  budgetsDeleted: number;
+  sessionsDeleted: number;
+  userDeleted: boolean;
+  // Removed rows, so their files can be deleted too
+  videoJobs: VideoJob[];
+}
+
+// Stands in for the IP of erased analytics rows
+export const ERASED_IP_HASH = '0'.repeat(64);
+
+export type KnowledgeDocumentSummary = Omit<KnowledgeDocument, 'content'> & { chunks: number };
+
+export interface KnowledgePassage {
+  id: string;
+  documentId: string;
+  title: string;
+  url: string | null;
+  heading: string | null;
+  content: string;
 }
 
 import { db } from "./db";
-import { users, analytics } from "./schema";
-import { eq, and, gte, lte, sql, count, sum } from "drizzle-orm";
+import {
+  users,
+  analytics,
+  conversations,
+  messages,
+  budgets,
+  videoJobs,
+  knowledgeDocuments,
+  knowledgeChunks,
+  prompts,
+  experiments,
+  experimentVariants,
+  messageFeedback,
+  moderationEvents,
+  analyticsDaily,
+  sessions,
+  requestFailures,
+  alertRules,
+  alertFirings,
+} from "./schema";
+import { findModelPrice } from "./pricing";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { eq, and, or, gte, lte, lt, desc, asc, inArray, isNull, isNotNull, sql, count, sum, max, type SQL } from "drizzle-orm";
+
+function getAnalyticsFilterConditions(filter: AnalyticsFilter): SQL[] {
+  const conditions: SQL[] = [];
+  if (filter.promptVersionId) {
+    conditions.push(eq(analytics.promptVersionId, filter.promptVersionId));
+  }
+  if (filter.variantId) {
+    conditions.push(eq(analytics.variantId, filter.variantId));
+  }
+  return conditions;
+}
+
+function getAnalyticsRangeConditions(startDate: Date, endDate: Date, filter: AnalyticsFilter): SQL[] {
+  return [
+    gte(analytics.timestamp, startDate),
+    lte(analytics.timestamp, endDate),
+    ...getAnalyticsFilterConditions(filter),
+  ];
+}
+
+// Rolled-up days are whole UTC days: any day the range touches is included in full
+function getDailyRangeConditions(startDate: Date, endDate: Date): SQL[] {
+  return [
+    gte(analyticsDaily.day, startDate.toISOString().slice(0, 10)),
+    lte(analyticsDaily.day, endDate.toISOString().slice(0, 10)),
+  ];
+}
+
+// Aggregates selected from raw records and from daily rollups, so the two can be added together
+const rawTotals = {
+  requests: sql<number>`count(*)`.mapWith(Number),
+  cost: sql<number>`coalesce(sum(${analytics.cost}), 0)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${analytics.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${analytics.outputTokens}), 0)`.mapWith(Number),
+  characters: sql<number>`coalesce(sum(${analytics.characters}), 0)`.mapWith(Number),
+  audioSeconds: sql<number>`coalesce(sum(${analytics.audioSeconds}), 0)`.mapWith(Number),
+  totalDuration: sql<number>`coalesce(sum(${analytics.duration}), 0)`.mapWith(Number),
+  unpricedRequests: sql<number>`count(*) filter (where not ${analytics.priced})`.mapWith(Number),
+  cacheHits: sql<number>`count(*) filter (where ${analytics.cacheHit})`.mapWith(Number),
+};
+
+const dailyTotals = {
+  requests: sql<number>`coalesce(sum(${analyticsDaily.requests}), 0)`.mapWith(Number),
+  cost: sql<number>`coalesce(sum(${analyticsDaily.cost}), 0)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${analyticsDaily.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${analyticsDaily.outputTokens}), 0)`.mapWith(Number),
+  characters: sql<number>`coalesce(sum(${analyticsDaily.characters}), 0)`.mapWith(Number),
+  audioSeconds: sql<number>`coalesce(sum(${analyticsDaily.audioSeconds}), 0)`.mapWith(Number),
+  totalDuration: sql<number>`coalesce(sum(${analyticsDaily.totalDuration}), 0)`.mapWith(Number),
+  unpricedRequests: sql<number>`coalesce(sum(${analyticsDaily.unpricedRequests}), 0)`.mapWith(Number),
+  cacheHits: sql<number>`coalesce(sum(${analyticsDaily.cacheHits}), 0)`.mapWith(Number),
+};
+
+// Only raw records carry durations per request and client IPs
+const rawLatency = {
+  p50ResponseTime: sql<number | null>`percentile_cont(0.5) within group (order by ${analytics.duration})`.mapWith(Number),
+  p95ResponseTime: sql<number | null>`percentile_cont(0.95) within group (order by ${analytics.duration})`.mapWith(Number),
+  p99ResponseTime: sql<number | null>`percentile_cont(0.99) within group (order by ${analytics.duration})`.mapWith(Number),
+  uniqueUsers: sql<number>`count(distinct ${analytics.ipAddress})`.mapWith(Number),
+};
+
+function emptyTotals(): AnalyticsTotals {
+  return {
+    requests: 0,
+    cost: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    characters: 0,
+    audioSeconds: 0,
+    totalDuration: 0,
+    unpricedRequests: 0,
+    cacheHits: 0,
+  };
+}
+
+function addTotals(target: AnalyticsTotals, totals: AnalyticsTotals): void {
+  target.requests += totals.requests;
+  target.cost += totals.cost;
+  target.inputTokens += totals.inputTokens;
+  target.outputTokens += totals.outputTokens;
+  target.characters += totals.characters;
+  target.audioSeconds += totals.audioSeconds;
+  target.totalDuration += totals.totalDuration;
+  target.unpricedRequests += totals.unpricedRequests;
+  target.cacheHits += totals.cacheHits;
+}
+
+// Bucket label for a raw record; times are UTC
+function rawGroupKey(groupBy: AnalyticsGroupBy): SQL<string> {
+  switch (groupBy) {
+    case 'hour':
+      return sql<string>`to_char(date_trunc('hour', ${analytics.timestamp}), 'YYYY-MM-DD"T"HH24:00:00"Z"')`;
+    case 'day':
+      return sql<string>`to_char(date_trunc('day', ${analytics.timestamp}), 'YYYY-MM-DD')`;
+    case 'week':
+      return sql<string>`to_char(date_trunc('week', ${analytics.timestamp}), 'YYYY-MM-DD')`;
+    case 'model':
+      return sql<string>`${analytics.model}`;
+    case 'type':
+      return sql<string>`${analytics.type}`;
+    case 'user':
+      // Logged-out requests are grouped by hashed IP
+      return sql<string>`coalesce('user:' || ${analytics.userId}, 'ip:' || ${analytics.ipAddress})`;
+  }
+}
+
+// Null for groupings the daily rollups don't keep
+function dailyGroupKey(groupBy: AnalyticsGroupBy): SQL<string> | null {
+  switch (groupBy) {
+    case 'day':
+      return sql<string>`to_char(${analyticsDaily.day}::timestamp, 'YYYY-MM-DD')`;
+    case 'week':
+      return sql<string>`to_char(date_trunc('week', ${analyticsDaily.day}::timestamp), 'YYYY-MM-DD')`;
+    case 'model':
+      return sql<string>`${analyticsDaily.model}`;
+    case 'type':
+      return sql<string>`${analyticsDaily.type}`;
+    default:
+      return null;
+  }
+}
+
+function encodeAnalyticsCursor(at: string, id: string): string {
+  return Buffer.from(JSON.stringify([at, id])).toString('base64url');
+}
+
+function subjectCondition(subject: PersonalDataSubject, userColumn: AnyPgColumn, ipColumn: AnyPgColumn): SQL {
+  return subject.userId ? eq(userColumn, subject.userId) : eq(ipColumn, subject.ipHash);
+}
 
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +395,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async createAnalyticsRecord(record: InsertAnalytics): Promise<Analytics> {
     const [analyticsRecord] = await db
       .insert(analytics)
@@ -41,57 +412,939 @@ export class DatabaseStorage implements IStorage {
     return analyticsRecord;
   }
 
-  async getAllAnalytics(startDate?: Date, endDate?: Date): Promise<Analytics[]> {
-    let query = db.select().from(analytics);
-    
-    if (startDate && endDate) {
-      query = query.where(
-        and(
-          gte(analytics.timestamp, startDate),
-          lte(analytics.timestamp, endDate)
-        )
-      ) as any;
-    } else if (startDate) {
-      query = query.where(gte(analytics.timestamp, startDate)) as any;
-    } else if (endDate) {
-      query = query.where(lte(analytics.timestamp, endDate)) as any;
-    }
-
-    return query;
-  }
-
-  async getAnalyticsSummary(startDate: Date, endDate: Date): Promise<AnalyticsSummary> {
-    const records = await this.getAllAnalytics(startDate, endDate);
-    
-    const chatRecords = records.filter(r => r.type === 'chat');
-    const ttsRecords = records.filter(r => r.type === 'tts');
-    
-    const totalCost = records.reduce((sum, r) => sum + parseFloat(r.cost || '0'), 0);
-    const chatCost = chatRecords.reduce((sum, r) => sum + parseFloat(r.cost || '0'), 0);
-    const ttsCost = ttsRecords.reduce((sum, r) => sum + parseFloat(r.cost || '0'), 0);
-    
-    const totalTokens = records.reduce((sum, r) => 
-      sum + (r.inputTokens || 0) + (r.outputTokens || 0), 0
+  // One statement for the whole batch
+  async updateAnalyticsCosts(updates: AnalyticsCostUpdate[]): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+    const values = sql.join(
+      updates.map(update => sql`(${update.id}, ${update.cost}::numeric, ${update.priced}::boolean)`),
+      sql`, `
+    );
+    await db.execute(sql`
+      update ${analytics} set cost = changed.cost, priced = changed.priced
+      from (values ${values}) as changed(id, cost, priced)
+      where ${analytics.id} = changed.id
+    `);
+  }
+
+  async getAnalyticsPage(
+    startDate: Date,
+    endDate: Date,
+    { limit, cursor, ascending = false }: AnalyticsPageOptions,
+    filter: AnalyticsFilter = {}
+  ): Promise<AnalyticsPage> {
+    const conditions = getAnalyticsRangeConditions(startDate, endDate, filter);
+    if (cursor) {
+      conditions.push(ascending
+        ? sql`(${analytics.timestamp}, ${analytics.id}) > (${cursor.at}::timestamp, ${cursor.id})`
+        : sql`(${analytics.timestamp}, ${analytics.id}) < (${cursor.at}::timestamp, ${cursor.id})`);
+    }
+    const order = ascending ? asc : desc;
+
+    // The cursor keeps the timestamp as text, since Date would drop its microseconds
+    const rows = await db
+      .select({ record: analytics, at: sql<string>`${analytics.timestamp}::text` })
+      .from(analytics)
+      .where(and(...conditions))
+      .orderBy(order(analytics.timestamp), order(analytics.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      records: page.map(row => row.record),
+      nextCursor: rows.length > limit ? encodeAnalyticsCursor(last.at, last.record.id) : null,
+    };
+  }
+
+  async getAnalyticsGroups(
+    startDate: Date,
+    endDate: Date,
+    groupBy: AnalyticsGroupBy,
+    filter: AnalyticsFilter = {}
+  ): Promise<AnalyticsGroup[]> {
+    const rawKey = rawGroupKey(groupBy);
+    // Rolled-up days don't keep prompt versions or variants, so only unfiltered breakdowns include them
+    const dailyKey = getAnalyticsFilterConditions(filter).length === 0 ? dailyGroupKey(groupBy) : null;
+
+    const [rawRows, dailyRows] = await Promise.all([
+      db
+        .select({ key: rawKey, ...rawTotals, ...rawLatency })
+        .from(analytics)
+        .where(and(...getAnalyticsRangeConditions(startDate, endDate, filter)))
+        .groupBy(rawKey),
+      dailyKey
+        ? db
+          .select({ key: dailyKey, ...dailyTotals })
+          .from(analyticsDaily)
+          .where(and(...getDailyRangeConditions(startDate, endDate)))
+          .groupBy(dailyKey)
+        : Promise.resolve([]),
+    ]);
+
+    const groups: Map<string, AnalyticsGroup> = new Map();
+    for (const { key, p50ResponseTime, p95ResponseTime, p99ResponseTime, uniqueUsers, ...totals } of rawRows) {
+      groups.set(key, { key, ...totals, averageResponseTime: 0, p50ResponseTime, p95ResponseTime, p99ResponseTime, uniqueUsers });
+    }
+    for (const { key, ...totals } of dailyRows) {
+      const group = groups.get(key);
+      if (group) {
+        addTotals(group, totals);
+      } else {
+        groups.set(key, {
+          key,
+          ...totals,
+          averageResponseTime: 0,
+          p50ResponseTime: null,
+          p95ResponseTime: null,
+          p99ResponseTime: null,
+          uniqueUsers: 0,
+        });
+      }
+    }
+
+    const result = Array.from(groups.values());
+    for (const group of result) {
+      group.averageResponseTime = group.requests > 0 ? group.totalDuration / group.requests : 0;
+    }
+
+    // Time buckets in order; otherwise the busiest first
+    if (groupBy === 'hour' || groupBy === 'day' || groupBy === 'week') {
+      return result.sort((a, b) => a.key.localeCompare(b.key));
+    }
+    return result.sort((a, b) => b.requests - a.requests);
+  }
+
+  // Raw records and daily rollups, so the lines add up to getAnalyticsSummary
+  async getInvoiceLines(startDate: Date, endDate: Date): Promise<InvoiceLine[]> {
+    const rawProvider = sql<string>`coalesce(${analytics.provider}, '')`;
+    const [rawRows, dailyRows] = await Promise.all([
+      db
+        .select({ provider: rawProvider, model: analytics.model, type: analytics.type, ...rawTotals })
+        .from(analytics)
+        .where(and(...getAnalyticsRangeConditions(startDate, endDate, {})))
+        .groupBy(rawProvider, analytics.model, analytics.type),
+      db
+        .select({ provider: analyticsDaily.provider, model: analyticsDaily.model, type: analyticsDaily.type, ...dailyTotals })
+        .from(analyticsDaily)
+        .where(and(...getDailyRangeConditions(startDate, endDate)))
+        .groupBy(analyticsDaily.provider, analyticsDaily.model, analyticsDaily.type),
+    ]);
+
+    const lines: Map<string, InvoiceLine> = new Map();
+    for (const { provider, model, type, ...totals } of [...rawRows, ...dailyRows]) {
+      const key = `${provider}\n${model}\n${type}`;
+      const line = lines.get(key);
+      if (line) {
+        addTotals(line, totals);
+      } else {
+        lines.set(key, { provider, model, type, ...totals });
+      }
+    }
+
+    return Array.from(lines.values()).sort((a, b) =>
+      a.provider.localeCompare(b.provider) || a.model.localeCompare(b.model) || a.type.localeCompare(b.type)
+    );
+  }
+
+  async getAnalyticsRecord(id: string): Promise<Analytics | undefined> {
+    const [record] = await db.select().from(analytics).where(eq(analytics.id, id));
+    return record || undefined;
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const [created] = await db
+      .insert(conversations)
+      .values(conversation)
+      .returning();
+    return created;
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation || undefined;
+  }
+
+  async getConversationsByOwner(ownerId: string): Promise<Conversation[]> {
+    return db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.ownerId, ownerId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    await db.delete(conversations).where(eq(conversations.id, id));
+  }
+
+  async touchConversation(id: string): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(conversations.id, id));
+  }
+
+  async addMessage(message: InsertMessage): Promise<Message> {
+    const [created] = await db
+      .insert(messages)
+      .values(message)
+      .returning();
+    return created;
+  }
+
+  // Returns the most recent messages (all if no limit) in chronological order
+  async getMessages(conversationId: string, limit?: number): Promise<Message[]> {
+    let query = db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(desc(messages.createdAt))
+      .$dynamic();
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const rows = await query;
+    return rows.reverse();
+  }
+
+  async getSpend(since: Date, filter: { ipAddress?: string; userId?: string } = {}): Promise<number> {
+    const conditions = [gte(analytics.timestamp, since)];
+    if (filter.ipAddress) {
+      conditions.push(eq(analytics.ipAddress, filter.ipAddress));
+    }
+    if (filter.userId) {
+      conditions.push(eq(analytics.userId, filter.userId));
+    }
+
+    const [result] = await db
+      .select({ total: sum(analytics.cost) })
+      .from(analytics)
+      .where(and(...conditions));
+    return parseFloat(result?.total || '0');
+  }
+
+  async getBudgets(): Promise<Budget[]> {
+    return db.select().from(budgets);
+  }
+
+  async upsertBudget(budget: InsertBudget): Promise<Budget> {
+    const [saved] = await db
+      .insert(budgets)
+      .values(budget)
+      .onConflictDoUpdate({
+        target: [budgets.scope, budgets.period, budgets.subject],
+        set: { limitUsd: budget.limitUsd, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteBudget(id: string): Promise<boolean> {
+    const deleted = await db.delete(budgets).where(eq(budgets.id, id)).returning({ id: budgets.id });
+    return deleted.length > 0;
+  }
+
+  async createVideoJob(job: InsertVideoJob): Promise<VideoJob> {
+    const [created] = await db
+      .insert(videoJobs)
+      .values(job)
+      .returning();
+    return created;
+  }
+
+  async getVideoJob(id: string): Promise<VideoJob | undefined> {
+    const [job] = await db.select().from(videoJobs).where(eq(videoJobs.id, id));
+    return job || undefined;
+  }
+
+  async updateVideoJob(id: string, update: Partial<InsertVideoJob>): Promise<VideoJob | undefined> {
+    const [job] = await db
+      .update(videoJobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(videoJobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async getUnfinishedVideoJobs(): Promise<VideoJob[]> {
+    return db
+      .select()
+      .from(videoJobs)
+      .where(inArray(videoJobs.status, ['queued', 'processing']))
+      .orderBy(asc(videoJobs.createdAt));
+  }
+
+  async createKnowledgeDocument(
+    document: InsertKnowledgeDocument,
+    chunks: InsertKnowledgeChunk[]
+  ): Promise<KnowledgeDocument> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(knowledgeDocuments).values(document).returning();
+      if (chunks.length > 0) {
+        await tx.insert(knowledgeChunks).values(chunks.map(chunk => ({ ...chunk, documentId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  async getKnowledgeDocuments(): Promise<KnowledgeDocumentSummary[]> {
+    return db
+      .select({
+        id: knowledgeDocuments.id,
+        title: knowledgeDocuments.title,
+        url: knowledgeDocuments.url,
+        format: knowledgeDocuments.format,
+        createdAt: knowledgeDocuments.createdAt,
+        chunks: count(knowledgeChunks.id),
+      })
+      .from(knowledgeDocuments)
+      .leftJoin(knowledgeChunks, eq(knowledgeChunks.documentId, knowledgeDocuments.id))
+      .groupBy(knowledgeDocuments.id)
+      .orderBy(desc(knowledgeDocuments.createdAt));
+  }
+
+  async deleteKnowledgeDocument(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(knowledgeDocuments)
+      .where(eq(knowledgeDocuments.id, id))
+      .returning({ id: knowledgeDocuments.id });
+    return deleted.length > 0;
+  }
+
+  async getKnowledgePassages(): Promise<KnowledgePassage[]> {
+    return db
+      .select({
+        id: knowledgeChunks.id,
+        documentId: knowledgeChunks.documentId,
+        title: knowledgeDocuments.title,
+        url: knowledgeDocuments.url,
+        heading: knowledgeChunks.heading,
+        content: knowledgeChunks.content,
+      })
+      .from(knowledgeChunks)
+      .innerJoin(knowledgeDocuments, eq(knowledgeChunks.documentId, knowledgeDocuments.id))
+      .orderBy(asc(knowledgeChunks.documentId), asc(knowledgeChunks.position));
+  }
+
+  async createPrompt(
+    prompt: { persona: string; content: string; description?: string },
+    activate: boolean
+  ): Promise<Prompt> {
+    return db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: max(prompts.version) })
+        .from(prompts)
+        .where(eq(prompts.persona, prompt.persona));
+
+      if (activate) {
+        await tx.update(prompts).set({ isActive: false }).where(eq(prompts.persona, prompt.persona));
+      }
+
+      const [created] = await tx
+        .insert(prompts)
+        .values({
+          persona: prompt.persona,
+          version: (latest?.version ?? 0) + 1,
+          content: prompt.content,
+          description: prompt.description ?? null,
+          isActive: activate,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async getPrompts(persona?: string): Promise<Prompt[]> {
+    return db
+      .select()
+      .from(prompts)
+      .where(persona ? eq(prompts.persona, persona) : undefined)
+      .orderBy(asc(prompts.persona), desc(prompts.version));
+  }
+
+  async getPrompt(id: string): Promise<Prompt | undefined> {
+    const [prompt] = await db.select().from(prompts).where(eq(prompts.id, id));
+    return prompt || undefined;
+  }
+
+  async getActivePrompt(persona: string): Promise<Prompt | undefined> {
+    const [prompt] = await db
+      .select()
+      .from(prompts)
+      .where(and(eq(prompts.persona, persona), eq(prompts.isActive, true)));
+    return prompt || undefined;
+  }
+
+  async activatePrompt(id: string): Promise<Prompt | undefined> {
+    return db.transaction(async (tx) => {
+      const [prompt] = await tx.select().from(prompts).where(eq(prompts.id, id));
+      if (!prompt) {
+        return undefined;
+      }
+      await tx.update(prompts).set({ isActive: false }).where(eq(prompts.persona, prompt.persona));
+      const [activated] = await tx.update(prompts).set({ isActive: true }).where(eq(prompts.id, id)).returning();
+      return activated;
+    });
+  }
+
+  // The active version can't be deleted (activate another one first), nor can
+  // a version an experiment variant uses
+  async deletePrompt(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(prompts)
+      .where(and(
+        eq(prompts.id, id),
+        eq(prompts.isActive, false),
+        sql`not exists (select 1 from ${experimentVariants} where ${experimentVariants.promptVersionId} = ${prompts.id})`
+      ))
+      .returning({ id: prompts.id });
+    return deleted.length > 0;
+  }
+
+  async createExperiment(
+    experiment: { name: string; persona: string },
+    variants: InsertExperimentVariant[]
+  ): Promise<ExperimentWithVariants> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(experiments).values(experiment).returning();
+      const createdVariants = await tx
+        .insert(experimentVariants)
+        .values(variants.map(variant => ({ ...variant, experimentId: created.id })))
+        .returning();
+      return { ...created, variants: createdVariants };
+    });
+  }
+
+  async getExperiments(): Promise<Experiment[]> {
+    return db.select().from(experiments).orderBy(desc(experiments.createdAt));
+  }
+
+  private async withVariants(experiment: Experiment | undefined): Promise<ExperimentWithVariants | undefined> {
+    if (!experiment) {
+      return undefined;
+    }
+    const variants = await db
+      .select()
+      .from(experimentVariants)
+      .where(eq(experimentVariants.experimentId, experiment.id))
+      .orderBy(asc(experimentVariants.name));
+    return { ...experiment, variants };
+  }
+
+  async getExperiment(id: string): Promise<ExperimentWithVariants | undefined> {
+    const [experiment] = await db.select().from(experiments).where(eq(experiments.id, id));
+    return this.withVariants(experiment);
+  }
+
+  async getRunningExperiment(persona: string): Promise<ExperimentWithVariants | undefined> {
+    const [experiment] = await db
+      .select()
+      .from(experiments)
+      .where(and(eq(experiments.persona, persona), eq(experiments.status, 'running')))
+      .orderBy(desc(experiments.startedAt))
+      .limit(1);
+    return this.withVariants(experiment);
+  }
+
+  async setExperimentStatus(id: string, status: ExperimentStatus): Promise<Experiment | undefined> {
+    const [experiment] = await db
+      .update(experiments)
+      .set({
+        status,
+        startedAt: status === 'running' ? new Date() : undefined,
+        stoppedAt: status === 'stopped' ? new Date() : undefined,
+      })
+      .where(eq(experiments.id, id))
+      .returning();
+    return experiment || undefined;
+  }
+
+  async upsertMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback> {
+    const [saved] = await db
+      .insert(messageFeedback)
+      .values(feedback)
+      .onConflictDoUpdate({
+        target: messageFeedback.messageId,
+        set: {
+          rating: feedback.rating,
+          category: feedback.category ?? null,
+          comment: feedback.comment ?? null,
+          userId: feedback.userId,
+          ipAddress: feedback.ipAddress,
+          createdAt: new Date(),
+          reviewedAt: null,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Feedback on answers given between the two dates
+  async getFeedbackCounts(startDate: Date, endDate: Date, filter: AnalyticsFilter): Promise<{ up: number; down: number }> {
+    const rows = await db
+      .select({ rating: messageFeedback.rating, count: count() })
+      .from(messageFeedback)
+      .innerJoin(analytics, eq(messageFeedback.messageId, analytics.id))
+      .where(and(
+        gte(analytics.timestamp, startDate),
+        lte(analytics.timestamp, endDate),
+        ...getAnalyticsFilterConditions(filter)
+      ))
+      .groupBy(messageFeedback.rating);
+
+    return {
+      up: rows.find(row => row.rating === 'up')?.count ?? 0,
+      down: rows.find(row => row.rating === 'down')?.count ?? 0,
+    };
+  }
+
+  async getFeedback(filter: FeedbackFilter): Promise<{ feedback: FeedbackListItem[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filter.rating) {
+      conditions.push(eq(messageFeedback.rating, filter.rating));
+    }
+    if (filter.category) {
+      conditions.push(eq(messageFeedback.category, filter.category));
+    }
+    if (filter.flagged !== undefined) {
+      conditions.push(filter.flagged ? isNotNull(messageFeedback.category) : isNull(messageFeedback.category));
+    }
+    if (filter.status) {
+      conditions.push(filter.status === 'reviewed' ? isNotNull(messageFeedback.reviewedAt) : isNull(messageFeedback.reviewedAt));
+    }
+    if (filter.from) {
+      conditions.push(gte(messageFeedback.createdAt, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lte(messageFeedback.createdAt, filter.to));
+    }
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          feedback: messageFeedback,
+          message: {
+            timestamp: analytics.timestamp,
+            provider: analytics.provider,
+            model: analytics.model,
+            promptVersionId: analytics.promptVersionId,
+            variantId: analytics.variantId,
+          },
+        })
+        .from(messageFeedback)
+        .innerJoin(analytics, eq(messageFeedback.messageId, analytics.id))
+        .where(where)
+        .orderBy(desc(messageFeedback.createdAt))
+        .limit(filter.limit)
+        .offset(filter.offset),
+      db.select({ total: count() }).from(messageFeedback).where(where),
+    ]);
+
+    const messageIds = rows.map(row => row.feedback.messageId);
+    const exchanges = messageIds.length > 0
+      ? await db.select().from(messages).where(inArray(messages.answerId, messageIds))
+      : [];
+    const findContent = (messageId: string, role: string) =>
+      exchanges.find(message => message.answerId === messageId && message.role === role)?.content ?? null;
+
+    return {
+      feedback: rows.map(row => ({
+        ...row.feedback,
+        message: {
+          ...row.message,
+          question: findContent(row.feedback.messageId, 'user'),
+          answer: findContent(row.feedback.messageId, 'assistant'),
+        },
+      })),
+      total,
+    };
+  }
+
+  async markFeedbackReviewed(id: string, reviewed: boolean): Promise<MessageFeedback | undefined> {
+    const [feedback] = await db
+      .update(messageFeedback)
+      .set({ reviewedAt: reviewed ? new Date() : null })
+      .where(eq(messageFeedback.id, id))
+      .returning();
+    return feedback || undefined;
+  }
+
+  async createModerationEvents(events: InsertModerationEvent[]): Promise<void> {
+    if (events.length > 0) {
+      await db.insert(moderationEvents).values(events);
+    }
+  }
+
+  async getModerationEvents(filter: ModerationEventFilter): Promise<{ events: ModerationEvent[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filter.stage) {
+      conditions.push(eq(moderationEvents.stage, filter.stage));
+    }
+    if (filter.action) {
+      conditions.push(eq(moderationEvents.action, filter.action));
+    }
+    if (filter.rule) {
+      conditions.push(eq(moderationEvents.rule, filter.rule));
+    }
+    if (filter.from) {
+      conditions.push(gte(moderationEvents.createdAt, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lte(moderationEvents.createdAt, filter.to));
+    }
+    const where = and(...conditions);
+
+    const [events, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(moderationEvents)
+        .where(where)
+        .orderBy(desc(moderationEvents.createdAt))
+        .limit(filter.limit)
+        .offset(filter.offset),
+      db.select({ total: count() }).from(moderationEvents).where(where),
+    ]);
+
+    return { events, total };
+  }
+
+  // IPs stored before they were hashed; hashes are 64 hex characters
+  async getUnhashedIpAddresses(): Promise<string[]> {
+    const notHashed = (column: AnyPgColumn) => sql`${column} !~ '^[0-9a-f]{64}$'`;
+    const results = await Promise.all([
+      db.selectDistinct({ ip: analytics.ipAddress }).from(analytics).where(notHashed(analytics.ipAddress)),
+      db.selectDistinct({ ip: messageFeedback.ipAddress }).from(messageFeedback).where(notHashed(messageFeedback.ipAddress)),
+      db.selectDistinct({ ip: moderationEvents.ipAddress }).from(moderationEvents).where(notHashed(moderationEvents.ipAddress)),
+      db.selectDistinct({ ip: videoJobs.ipAddress }).from(videoJobs).where(notHashed(videoJobs.ipAddress)),
+    ]);
+    return Array.from(new Set(results.flat().map(row => row.ip)));
+  }
+
+  async replaceIpAddress(from: string, to: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(analytics).set({ ipAddress: to }).where(eq(analytics.ipAddress, from));
+      await tx.update(messageFeedback).set({ ipAddress: to }).where(eq(messageFeedback.ipAddress, from));
+      await tx.update(moderationEvents).set({ ipAddress: to }).where(eq(moderationEvents.ipAddress, from));
+      await tx.update(videoJobs).set({ ipAddress: to }).where(eq(videoJobs.ipAddress, from));
+    });
+  }
+
+  // Adds analytics from before the given time to the daily aggregates and
+  // deletes the raw records, in one transaction so nothing is counted twice
+  async rollUpAnalytics(before: Date): Promise<{ days: number; records: number }> {
+    // Rated or flagged answers stay as raw records, so their feedback and the
+    // review queue keep working
+    const rollUpCondition = and(
+      lt(analytics.timestamp, before),
+      sql`not exists (select 1 from ${messageFeedback} where ${messageFeedback.messageId} = ${analytics.id})`
     );
-    
-    const totalCharacters = records.reduce((sum, r) => sum + (r.characters || 0), 0);
-    
-    const totalDuration = records.reduce((sum, r) => sum + (r.duration || 0), 0);
-    const averageResponseTime = records.length > 0 ? totalDuration / records.length : 0;
-    
-    const uniqueIps = new Set(records.map(r => r.ipAddress));
-    
+
+    return db.transaction(async (tx) => {
+      // Holds off new feedback until the rollup commits, so the rows summed below
+      // are exactly the rows deleted
+      await tx.execute(sql`lock table ${messageFeedback} in share mode`);
+      const day = sql<string>`to_char(date_trunc('day', ${analytics.timestamp}), 'YYYY-MM-DD')`;
+      const provider = sql<string>`coalesce(${analytics.provider}, '')`;
+      const rows = await tx
+        .select({
+          day,
+          type: analytics.type,
+          provider,
+          model: analytics.model,
+          requests: count(),
+          inputTokens: sql<number>`coalesce(sum(${analytics.inputTokens}), 0)`.mapWith(Number),
+          outputTokens: sql<number>`coalesce(sum(${analytics.outputTokens}), 0)`.mapWith(Number),
+          characters: sql<number>`coalesce(sum(${analytics.characters}), 0)`.mapWith(Number),
+          audioSeconds: sql<string>`coalesce(sum(${analytics.audioSeconds}), 0)`,
+          cost: sql<string>`sum(${analytics.cost})`,
+          totalDuration: sql<number>`sum(${analytics.duration})`.mapWith(Number),
+          unpricedRequests: sql<number>`count(*) filter (where not ${analytics.priced})`.mapWith(Number),
+          cacheHits: sql<number>`count(*) filter (where ${analytics.cacheHit})`.mapWith(Number),
+        })
+        .from(analytics)
+        .where(rollUpCondition)
+        .groupBy(day, analytics.type, provider, analytics.model);
+
+      if (rows.length === 0) {
+        return { days: 0, records: 0 };
+      }
+
+      await tx
+        .insert(analyticsDaily)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: [analyticsDaily.day, analyticsDaily.type, analyticsDaily.provider, analyticsDaily.model],
+          set: {
+            requests: sql`${analyticsDaily.requests} + excluded.requests`,
+            inputTokens: sql`${analyticsDaily.inputTokens} + excluded.input_tokens`,
+            outputTokens: sql`${analyticsDaily.outputTokens} + excluded.output_tokens`,
+            characters: sql`${analyticsDaily.characters} + excluded.characters`,
+            audioSeconds: sql`${analyticsDaily.audioSeconds} + excluded.audio_seconds`,
+            cost: sql`${analyticsDaily.cost} + excluded.cost`,
+            totalDuration: sql`${analyticsDaily.totalDuration} + excluded.total_duration`,
+            unpricedRequests: sql`${analyticsDaily.unpricedRequests} + excluded.unpriced_requests`,
+            cacheHits: sql`${analyticsDaily.cacheHits} + excluded.cache_hits`,
+          },
+        });
+
+      const deleted = await tx.delete(analytics).where(rollUpCondition);
+      return { days: new Set(rows.map(row => row.day)).size, records: deleted.rowCount ?? 0 };
+    });
+  }
+
+  async getPersonalData(subject: PersonalDataSubject): Promise<PersonalDataExport> {
+    const [user, analyticsRecords, feedback, events, ownedConversations, jobs] = await Promise.all([
+      subject.userId ? this.getUser(subject.userId) : Promise.resolve(undefined),
+      db.select().from(analytics).where(subjectCondition(subject, analytics.userId, analytics.ipAddress)).orderBy(asc(analytics.timestamp)),
+      db.select().from(messageFeedback).where(subjectCondition(subject, messageFeedback.userId, messageFeedback.ipAddress)),
+      db.select().from(moderationEvents).where(subjectCondition(subject, moderationEvents.userId, moderationEvents.ipAddress)),
+      subject.userId ? this.getConversationsByOwner(subject.userId) : Promise.resolve([]),
+      db.select().from(videoJobs).where(subjectCondition(subject, videoJobs.userId, videoJobs.ipAddress)),
+    ]);
+
+    const conversationsWithMessages = await Promise.all(ownedConversations.map(async (conversation) => ({
+      ...conversation,
+      messages: await this.getMessages(conversation.id),
+    })));
+
+    let publicUser: Omit<User, 'password'> | null = null;
+    if (user) {
+      const { password: _password, ...rest } = user;
+      publicUser = rest;
+    }
+
+    return {
+      user: publicUser,
+      analytics: analyticsRecords,
+      feedback,
+      moderationEvents: events,
+      conversations: conversationsWithMessages,
+      videoJobs: jobs,
+    };
+  }
+
+  async erasePersonalData(subject: PersonalDataSubject): Promise<PersonalDataErasure> {
+    return db.transaction(async (tx) => {
+      const userId = subject.userId;
+
+      const feedback = await tx
+        .delete(messageFeedback)
+        .where(subjectCondition(subject, messageFeedback.userId, messageFeedback.ipAddress));
+      const events = await tx
+        .delete(moderationEvents)
+        .where(subjectCondition(subject, moderationEvents.userId, moderationEvents.ipAddress));
+      const jobs = await tx
+        .delete(videoJobs)
+        .where(subjectCondition(subject, videoJobs.userId, videoJobs.ipAddress))
+        .returning();
+      const anonymised = await tx
+        .update(analytics)
+        .set({ userId: null, ipAddress: ERASED_IP_HASH })
+        .where(subjectCondition(subject, analytics.userId, analytics.ipAddress));
+
+      let conversationsDeleted = 0;
+      let budgetsDeleted = 0;
+      let sessionsDeleted = 0;
+      let userDeleted = false;
+      if (userId) {
+        conversationsDeleted = (await tx.delete(conversations).where(eq(conversations.ownerId, userId))).rowCount ?? 0;
+        budgetsDeleted = (await tx
+          .delete(budgets)
+          .where(and(eq(budgets.scope, 'user'), eq(budgets.subject, userId)))).rowCount ?? 0;
+        sessionsDeleted = (await tx.delete(sessions).where(sql`${sessions.sess}->>'userId' = ${userId}`)).rowCount ?? 0;
+        userDeleted = ((await tx.delete(users).where(eq(users.id, userId))).rowCount ?? 0) > 0;
+      } else if (subject.ip) {
+        budgetsDeleted = (await tx
+          .delete(budgets)
+          .where(and(eq(budgets.scope, 'ip'), eq(budgets.subject, subject.ip)))).rowCount ?? 0;
+      }
+
+      return {
+        analyticsAnonymised: anonymised.rowCount ?? 0,
+        feedbackDeleted: feedback.rowCount ?? 0,
+        moderationEventsDeleted: events.rowCount ?? 0,
+        conversationsDeleted,
+        budgetsDeleted,
+        sessionsDeleted,
+        userDeleted,
+        videoJobs: jobs,
+      };
+    });
+  }
+
+  async createRequestFailure(failure: InsertRequestFailure): Promise<void> {
+    await db.insert(requestFailures).values(failure);
+  }
+
+  async deleteRequestFailures(before: Date): Promise<number> {
+    const deleted = await db.delete(requestFailures).where(lt(requestFailures.timestamp, before));
+    return deleted.rowCount ?? 0;
+  }
+
+  async getAlertWindowStats(since: Date, type?: string): Promise<AlertWindowStats> {
+    const [[requestStats], [{ failures }]] = await Promise.all([
+      db
+        .select({
+          requests: count(),
+          cost: sql<number>`coalesce(sum(${analytics.cost}), 0)`.mapWith(Number),
+          averageDuration: sql<number | null>`avg(${analytics.duration})`.mapWith(Number),
+        })
+        .from(analytics)
+        .where(and(gte(analytics.timestamp, since), type ? eq(analytics.type, type) : undefined)),
+      db
+        .select({ failures: count() })
+        .from(requestFailures)
+        .where(and(gte(requestFailures.timestamp, since), type ? eq(requestFailures.type, type) : undefined)),
+    ]);
+    return { ...requestStats, failures };
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return db.select().from(alertRules).orderBy(asc(alertRules.createdAt));
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await db.insert(alertRules).values(rule).returning();
+    return created;
+  }
+
+  async updateAlertRule(id: string, changes: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [updated] = await db.update(alertRules).set(changes).where(eq(alertRules.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const deleted = await db.delete(alertRules).where(eq(alertRules.id, id)).returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  // Marks a rule as fired unless it already fired since cooldownStart. Done in
+  // one update so two instances checking at once can't both fire it.
+  async claimAlertRule(id: string, firedAt: Date, cooldownStart: Date): Promise<boolean> {
+    const claimed = await db
+      .update(alertRules)
+      .set({ lastFiredAt: firedAt })
+      .where(and(
+        eq(alertRules.id, id),
+        or(isNull(alertRules.lastFiredAt), lte(alertRules.lastFiredAt, cooldownStart))
+      ))
+      .returning({ id: alertRules.id });
+    return claimed.length > 0;
+  }
+
+  // Undoes a claim whose webhook couldn't be delivered, so the next check retries
+  async releaseAlertRule(id: string, firedAt: Date, previous: Date | null): Promise<void> {
+    await db
+      .update(alertRules)
+      .set({ lastFiredAt: previous })
+      .where(and(eq(alertRules.id, id), eq(alertRules.lastFiredAt, firedAt)));
+  }
+
+  async createAlertFiring(firing: InsertAlertFiring): Promise<AlertFiring> {
+    const [created] = await db.insert(alertFirings).values(firing).returning();
+    return created;
+  }
+
+  async getAlertFirings(limit: number, ruleId?: string): Promise<AlertFiring[]> {
+    return db
+      .select()
+      .from(alertFirings)
+      .where(ruleId ? eq(alertFirings.ruleId, ruleId) : undefined)
+      .orderBy(desc(alertFirings.firedAt))
+      .limit(limit);
+  }
+
+  async getAnalyticsSummary(startDate: Date, endDate: Date, filter: AnalyticsFilter = {}): Promise<AnalyticsSummary> {
+    const where = and(...getAnalyticsRangeConditions(startDate, endDate, filter));
+    // Rolled-up days don't keep prompt versions or variants, so only unfiltered summaries include them
+    const includeDaily = getAnalyticsFilterConditions(filter).length === 0;
+    const day = rawGroupKey('day');
+
+    const [rawByType, [latency], cachedCharacters, dailyByType] = await Promise.all([
+      db.select({ type: analytics.type, ...rawTotals }).from(analytics).where(where).groupBy(analytics.type),
+      db.select(rawLatency).from(analytics).where(where),
+      // Cache savings are priced per model as of each day
+      db
+        .select({
+          model: analytics.model,
+          day,
+          characters: sql<number>`coalesce(sum(${analytics.characters}), 0)`.mapWith(Number),
+        })
+        .from(analytics)
+        .where(and(where, eq(analytics.cacheHit, true)))
+        .groupBy(analytics.model, day),
+      includeDaily
+        ? db
+          .select({
+            type: analyticsDaily.type,
+            firstDay: sql<string>`min(${analyticsDaily.day})::text`,
+            lastDay: sql<string>`max(${analyticsDaily.day})::text`,
+            ...dailyTotals,
+          })
+          .from(analyticsDaily)
+          .where(and(...getDailyRangeConditions(startDate, endDate)))
+          .groupBy(analyticsDaily.type)
+        : Promise.resolve([]),
+    ]);
+
+    // YYYY-MM-DD strings sort by date
+    const rolledUpDays = dailyByType.length > 0
+      ? {
+        from: dailyByType.map(row => row.firstDay).sort()[0],
+        to: dailyByType.map(row => row.lastDay).sort()[dailyByType.length - 1],
+      }
+      : null;
+
+    const totals = emptyTotals();
+    const byType: Map<string, AnalyticsTotals> = new Map();
+    const dailyTypeTotals = dailyByType.map(({ firstDay: _firstDay, lastDay: _lastDay, ...row }) => row);
+    for (const { type, ...rowTotals } of [...rawByType, ...dailyTypeTotals]) {
+      if (!byType.has(type)) {
+        byType.set(type, emptyTotals());
+      }
+      addTotals(byType.get(type)!, rowTotals);
+      addTotals(totals, rowTotals);
+    }
+    const typeTotals = (type: string) => byType.get(type) || emptyTotals();
+
+    const cacheSavings = cachedCharacters.reduce((total, row) => {
+      const price = findModelPrice(row.model, new Date(`${row.day}T00:00:00Z`));
+      return total + row.characters * (price?.perCharacter || 0);
+    }, 0);
+
     return {
-      totalRequests: records.length,
-      chatRequests: chatRecords.length,
-      ttsRequests: ttsRecords.length,
-      totalCost,
-      chatCost,
-      ttsCost,
-      totalTokens,
-      totalCharacters,
-      averageResponseTime,
-      uniqueUsers: uniqueIps.size,
+      totalRequests: totals.requests,
+      chatRequests: typeTotals('chat').requests,
+      ttsRequests: typeTotals('tts').requests,
+      videoRequests: typeTotals('video').requests,
+      sttRequests: typeTotals('stt').requests,
+      totalCost: totals.cost,
+      chatCost: typeTotals('chat').cost,
+      ttsCost: typeTotals('tts').cost,
+      videoCost: typeTotals('video').cost,
+      sttCost: typeTotals('stt').cost,
+      totalTokens: totals.inputTokens + totals.outputTokens,
+      totalCharacters: totals.characters,
+      totalAudioSeconds: totals.audioSeconds,
+      averageResponseTime: totals.requests > 0 ? totals.totalDuration / totals.requests : 0,
+      p50ResponseTime: latency.p50ResponseTime ?? 0,
+      p95ResponseTime: latency.p95ResponseTime ?? 0,
+      p99ResponseTime: latency.p99ResponseTime ?? 0,
+      // Only counted over raw records; rolled-up days carry no IPs
+      uniqueUsers: latency.uniqueUsers,
+      unpricedRequests: totals.unpricedRequests,
+      cacheHits: totals.cacheHits,
+      cacheSavings,
+      rolledUpDays,
       period: `${startDate.toISOString()} to ${endDate.toISOString()}`,
       startDate,
       endDate,
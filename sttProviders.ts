@@ -0,0 +1,152 @@
+import OpenAI, { toFile } from "openai";
+
+// Registry of speech-to-text engines, mirroring ttsProviders.ts. The default
+// comes from STT_PROVIDER and requests may pick another by name. Both built-in
+// providers speak the OpenAI transcription API.
+
+export interface STTTranscribeOptions {
+  model: string;
+  filename: string;
+  mimeType: string;
+  // ISO-639-1 hint; detected automatically when omitted
+  language?: string;
+}
+
+export interface STTResult {
+  text: string;
+  language?: string;
+  // Length of the audio as reported by the provider
+  durationSeconds: number;
+}
+
+export interface STTProvider {
+  name: string;
+  description: string;
+  models: readonly string[];
+  defaultModel: string;
+  // Largest upload the provider accepts
+  maxBytes: number;
+  isConfigured(): boolean;
+  transcribe(audio: Buffer, options: STTTranscribeOptions): Promise<STTResult>;
+}
+
+// Both APIs reject uploads over 25 MB
+const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+
+function createWhisperProvider(
+  definition: Omit<STTProvider, 'isConfigured' | 'transcribe' | 'maxBytes'>,
+  getCredentials: () => { apiKey: string; baseURL?: string } | null
+): STTProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    ...definition,
+    maxBytes: WHISPER_MAX_BYTES,
+    isConfigured: () => getCredentials() !== null,
+    async transcribe(audio, options) {
+      if (!client) {
+        const credentials = getCredentials();
+        if (!credentials) {
+          throw new Error(`STT provider "${definition.name}" is not configured`);
+        }
+        client = new OpenAI({ ...credentials, timeout: 60000, maxRetries: 1 });
+      }
+
+      const transcription = await client.audio.transcriptions.create({
+        file: await toFile(audio, options.filename, { type: options.mimeType }),
+        model: options.model,
+        language: options.language,
+        response_format: 'verbose_json',
+      });
+
+      return {
+        text: transcription.text.trim(),
+        language: transcription.language,
+        durationSeconds: transcription.duration,
+      };
+    },
+  };
+}
+
+const openAIProvider = createWhisperProvider(
+  {
+    name: 'openai',
+    description: 'OpenAI Whisper',
+    models: ['whisper-1'],
+    defaultModel: 'whisper-1',
+  },
+  () => {
+    if (process.env.OPENAI_API_KEY) {
+      return { apiKey: process.env.OPENAI_API_KEY };
+    }
+    if (process.env.AI_INTEGRATIONS_OPENAI_BASE_URL && process.env.AI_INTEGRATIONS_OPENAI_API_KEY) {
+      return { apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY, baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL };
+    }
+    return null;
+  }
+);
+
+const groqProvider = createWhisperProvider(
+  {
+    name: 'groq',
+    description: 'Whisper large v3 hosted by Groq',
+    models: ['whisper-large-v3-turbo', 'whisper-large-v3'],
+    defaultModel: 'whisper-large-v3-turbo',
+  },
+  () => process.env.GROQ_API_KEY
+    ? { apiKey: process.env.GROQ_API_KEY, baseURL: 'https://api.groq.com/openai/v1' }
+    : null
+);
+
+const providers: Map<string, STTProvider> = new Map();
+
+export function registerSTTProvider(provider: STTProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerSTTProvider(openAIProvider);
+registerSTTProvider(groqProvider);
+
+export function getDefaultSTTProviderName(): string {
+  return process.env.STT_PROVIDER || 'openai';
+}
+
+export function getSTTProvider(name: string = getDefaultSTTProviderName()): STTProvider | undefined {
+  return providers.get(name);
+}
+
+export function listSTTProviders(): STTProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getSTTLimits() {
+  return {
+    maxBytes: parseInt(process.env.STT_MAX_MB || '10', 10) * 1024 * 1024,
+    maxSeconds: parseInt(process.env.STT_MAX_SECONDS || '120', 10),
+  };
+}
+
+// Reads the duration from a PCM WAV header so over-long clips can be rejected
+// before they are sent upstream. Returns undefined for anything else.
+export function getWavDurationSeconds(audio: Buffer): number | undefined {
+  if (audio.length < 12 || audio.toString('ascii', 0, 4) !== 'RIFF' || audio.toString('ascii', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+
+  let byteRate: number | undefined;
+  let offset = 12;
+  while (offset + 8 <= audio.length) {
+    const chunkId = audio.toString('ascii', offset, offset + 4);
+    const chunkSize = audio.readUInt32LE(offset + 4);
+    if (chunkId === 'fmt ' && offset + 20 <= audio.length) {
+      byteRate = audio.readUInt32LE(offset + 16);
+    } else if (chunkId === 'data' && byteRate) {
+      // Streamed WAVs leave the size at its maximum, so fall back to what is actually there
+      const dataBytes = Math.min(chunkSize, audio.length - offset - 8);
+      return dataBytes / byteRate;
+    }
+    // Chunks are padded to an even length
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return undefined;
+}
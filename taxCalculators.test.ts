@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getTaxCalculator } from "./taxCalculators";
+
+function run(name: string, input: Record<string, unknown>): any {
+  return getTaxCalculator(name)!.run(input);
+}
+
+test("personal allowance tapers away above £100,000", () => {
+  const tapered = run('income-tax', { taxYear: '2025-26', nonSavingsIncome: 110000 });
+  assert.equal(tapered.personalAllowance, 7570);
+  assert.equal(tapered.taxableIncome, 102430);
+  assert.equal(tapered.totalTax, 33432);
+
+  const noAllowance = run('income-tax', { taxYear: '2025-26', nonSavingsIncome: 125140 });
+  assert.equal(noAllowance.personalAllowance, 0);
+  assert.equal(noAllowance.totalTax, 42516);
+
+  const additionalRate = run('income-tax', { taxYear: '2025-26', nonSavingsIncome: 130000 });
+  assert.equal(additionalRate.totalTax, 44703);
+});
+
+test("savings use the starting rate left after non-savings income", () => {
+  const result = run('income-tax', { taxYear: '2025-26', nonSavingsIncome: 15000, savingsIncome: 4000 });
+  const savings = result.breakdown.filter((line: any) => line.income === 'savings');
+  assert.deepEqual(savings.map((line: any) => [line.band, line.amount, line.tax]), [
+    ['starting rate for savings', 2570, 0],
+    ['personal savings allowance', 1000, 0],
+    ['basic', 430, 86],
+  ]);
+  assert.equal(result.totalTax, 572);
+
+  // Non-savings income above the allowance plus £5,000 uses up the starting rate
+  const noStartingRate = run('income-tax', { taxYear: '2025-26', nonSavingsIncome: 20000, savingsIncome: 1000 });
+  assert.ok(!noStartingRate.breakdown.some((line: any) => line.band === 'starting rate for savings'));
+});
+
+test("CGT rates rise for disposals from 30 October 2024", () => {
+  const gains = { taxYear: '2024-25', gains: 23000 };
+  assert.equal(run('capital-gains-tax', { ...gains, disposalDate: '2024-10-29' }).totalTax, 2000);
+  assert.equal(run('capital-gains-tax', { ...gains, disposalDate: '2024-10-30' }).totalTax, 3600);
+  // Without a date the latest rates in the year apply
+  assert.equal(run('capital-gains-tax', gains).totalTax, 3600);
+
+  const higherRate = { ...gains, annualIncome: 60000 };
+  assert.equal(run('capital-gains-tax', { ...higherRate, disposalDate: '2024-10-29' }).totalTax, 4000);
+  assert.equal(run('capital-gains-tax', { ...higherRate, disposalDate: '2024-10-30' }).totalTax, 4800);
+
+  // The disposal date picks the tax year when none is given
+  assert.equal(run('capital-gains-tax', { gains: 23000, disposalDate: '2024-10-29' }).taxYear, '2024-25');
+});
+
+test("first-time buyer relief stops above the maximum price", () => {
+  const completionDate = '2025-06-01';
+  const relieved = run('stamp-duty', { price: 500000, firstTimeBuyer: true, completionDate });
+  assert.equal(relieved.firstTimeBuyerRelief, true);
+  assert.equal(relieved.totalTax, 10000);
+
+  const overCap = run('stamp-duty', { price: 500001, firstTimeBuyer: true, completionDate });
+  assert.equal(overCap.firstTimeBuyerRelief, false);
+  assert.equal(overCap.totalTax, 15000.05);
+
+  // The 2022 relief went up to £625,000
+  assert.equal(run('stamp-duty', { price: 600000, firstTimeBuyer: true, completionDate: '2025-03-01' }).totalTax, 8750);
+});
+
+test("additional properties pay the surcharge on every band", () => {
+  const completionDate = '2025-06-01';
+  const result = run('stamp-duty', { price: 300000, additionalProperty: true, completionDate });
+  assert.equal(result.surcharge, 0.05);
+  assert.equal(result.totalTax, 20000);
+
+  // Not below £40,000, and first-time buyer relief doesn't apply to a second home
+  assert.equal(run('stamp-duty', { price: 39999, additionalProperty: true, completionDate }).totalTax, 0);
+  const secondHome = run('stamp-duty', { price: 300000, additionalProperty: true, firstTimeBuyer: true, completionDate });
+  assert.equal(secondHome.firstTimeBuyerRelief, false);
+  assert.equal(secondHome.totalTax, 20000);
+
+  // The surcharge was 3% before 31 October 2024
+  assert.equal(run('stamp-duty', { price: 300000, additionalProperty: true, completionDate: '2024-10-30' }).totalTax, 11500);
+});
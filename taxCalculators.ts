@@ -0,0 +1,388 @@
+import { z } from "zod";
+import {
+  TAX_YEARS,
+  SUPPORTED_TAX_YEARS,
+  STAMP_DUTY_RULES,
+  getDefaultTaxYear,
+  getTaxYearForDate,
+  findEffective,
+  type IncomeTaxBand,
+  type StampDutyBand,
+  type TaxYearRules,
+} from "./taxYears";
+
+// Deterministic UK tax calculators. The chat model calls them as tools (see
+// openai.ts) rather than doing the arithmetic itself, and the UI calls them
+// directly through POST /api/calculators/:name. Each calculator has a zod schema
+// for validation and a JSON schema describing its parameters to the model.
+
+const money = z.number().nonnegative().max(1e10);
+
+const taxYear = z.string()
+  .refine(year => SUPPORTED_TAX_YEARS.includes(year), { message: `Supported tax years: ${SUPPORTED_TAX_YEARS.join(', ')}` })
+  .optional();
+
+const TAX_YEAR_PARAMETER = {
+  type: 'string',
+  enum: SUPPORTED_TAX_YEARS,
+  description: 'UK tax year, e.g. "2025-26". Defaults to the current tax year, or the latest supported one (with a warning) if it has no rates yet.',
+};
+
+function roundPence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// A result worked out for an earlier year than asked for says so in `warning`,
+// so neither the model nor the UI presents it as the current year's figure
+function getRules(year: string | undefined): { year: string; rules: TaxYearRules; warning?: string } {
+  if (year) {
+    return { year, rules: TAX_YEARS[year] };
+  }
+  const current = getTaxYearForDate();
+  const resolved = getDefaultTaxYear();
+  return {
+    year: resolved,
+    rules: TAX_YEARS[resolved],
+    warning: resolved !== current
+      ? `Rates for the ${current} tax year are not available yet, so ${resolved} rates were used`
+      : undefined,
+  };
+}
+
+function getPersonalAllowance(adjustedNetIncome: number, rules: TaxYearRules): number {
+  const reduction = Math.floor(Math.max(adjustedNetIncome - rules.personalAllowanceTaperThreshold, 0) / 2);
+  return Math.max(rules.personalAllowance - reduction, 0);
+}
+
+export interface IncomeTaxLine {
+  income: 'non-savings' | 'savings' | 'dividends';
+  band: string;
+  amount: number;
+  rate: number;
+  tax: number;
+}
+
+// Fills the income tax bands in HMRC order: non-savings, then savings, then
+// dividends. Nil-rate allowances still use up the band they fall in.
+class BandStack {
+  private position = 0;
+  readonly lines: IncomeTaxLine[] = [];
+
+  constructor(private readonly bands: IncomeTaxBand[]) {}
+
+  add(
+    income: IncomeTaxLine['income'],
+    amount: number,
+    rateFor: (band: IncomeTaxBand) => number,
+    label?: string
+  ): void {
+    let remaining = amount;
+    for (const band of this.bands) {
+      if (remaining <= 0) {
+        break;
+      }
+      const room = band.upTo - this.position;
+      if (room <= 0) {
+        continue;
+      }
+      const portion = Math.min(room, remaining);
+      const rate = rateFor(band);
+      this.lines.push({ income, band: label || band.name, amount: portion, rate, tax: roundPence(portion * rate) });
+      this.position += portion;
+      remaining -= portion;
+    }
+  }
+}
+
+const incomeTaxInputSchema = z.object({
+  taxYear,
+  nonSavingsIncome: money.default(0),
+  savingsIncome: money.default(0),
+  dividendIncome: money.default(0),
+});
+
+function calculateIncomeTax(input: z.infer<typeof incomeTaxInputSchema>) {
+  const { year, rules, warning } = getRules(input.taxYear);
+  const totalIncome = input.nonSavingsIncome + input.savingsIncome + input.dividendIncome;
+  const personalAllowance = getPersonalAllowance(totalIncome, rules);
+
+  // The allowance is set against non-savings income first, then savings, then dividends
+  let allowanceLeft = personalAllowance;
+  const takeAllowance = (income: number) => {
+    const used = Math.min(allowanceLeft, income);
+    allowanceLeft -= used;
+    return income - used;
+  };
+  const taxableNonSavings = takeAllowance(input.nonSavingsIncome);
+  const taxableSavings = takeAllowance(input.savingsIncome);
+  const taxableDividends = takeAllowance(input.dividendIncome);
+  const taxableIncome = taxableNonSavings + taxableSavings + taxableDividends;
+
+  const [basic, higher] = rules.bands;
+  const savingsAllowance = taxableIncome > higher.upTo
+    ? rules.personalSavingsAllowance.additional
+    : taxableIncome > basic.upTo
+      ? rules.personalSavingsAllowance.higher
+      : rules.personalSavingsAllowance.basic;
+
+  const stack = new BandStack(rules.bands);
+  stack.add('non-savings', taxableNonSavings, band => band.rate);
+
+  const startingRate = Math.min(Math.max(rules.startingRateForSavingsLimit - taxableNonSavings, 0), taxableSavings);
+  const savingsNilRate = Math.min(savingsAllowance, taxableSavings - startingRate);
+  stack.add('savings', startingRate, () => 0, 'starting rate for savings');
+  stack.add('savings', savingsNilRate, () => 0, 'personal savings allowance');
+  stack.add('savings', taxableSavings - startingRate - savingsNilRate, band => band.rate);
+
+  const dividendNilRate = Math.min(rules.dividendAllowance, taxableDividends);
+  stack.add('dividends', dividendNilRate, () => 0, 'dividend allowance');
+  stack.add('dividends', taxableDividends - dividendNilRate, band => band.dividendRate);
+
+  const totalTax = roundPence(stack.lines.reduce((sum, line) => sum + line.tax, 0));
+
+  return {
+    taxYear: year,
+    totalIncome,
+    personalAllowance,
+    taxableIncome,
+    breakdown: stack.lines.filter(line => line.amount > 0),
+    totalTax,
+    effectiveRate: totalIncome > 0 ? roundPence(totalTax / totalIncome * 100) / 100 : 0,
+    warning,
+  };
+}
+
+const nationalInsuranceInputSchema = z.object({
+  taxYear,
+  employmentEarnings: money.default(0),
+  selfEmploymentProfits: money.default(0),
+});
+
+function chargeBetween(amount: number, lower: number, upper: number, mainRate: number, upperRate: number): number {
+  const main = Math.max(Math.min(amount, upper) - lower, 0);
+  const above = Math.max(amount - upper, 0);
+  return roundPence(main * mainRate + above * upperRate);
+}
+
+function calculateNationalInsurance(input: z.infer<typeof nationalInsuranceInputSchema>) {
+  const { year, rules, warning } = getRules(input.taxYear);
+  const ni = rules.nationalInsurance;
+
+  const class1 = chargeBetween(
+    input.employmentEarnings,
+    ni.class1PrimaryThreshold,
+    ni.class1UpperEarningsLimit,
+    ni.class1MainRate,
+    ni.class1UpperRate
+  );
+  const class4 = chargeBetween(
+    input.selfEmploymentProfits,
+    ni.class4LowerProfitsLimit,
+    ni.class4UpperProfitsLimit,
+    ni.class4MainRate,
+    ni.class4UpperRate
+  );
+
+  return {
+    taxYear: year,
+    class1,
+    class4,
+    total: roundPence(class1 + class4),
+    // Class 1 is worked out per pay period in practice; this is the annual equivalent
+    thresholds: ni,
+    warning,
+  };
+}
+
+const capitalGainsInputSchema = z.object({
+  taxYear,
+  gains: money,
+  losses: money.default(0),
+  // Other income for the year, used to find how much of the basic rate band is left
+  annualIncome: money.default(0),
+  assetType: z.enum(['residential', 'other']).default('other'),
+  disposalDate: z.coerce.date().optional(),
+});
+
+function calculateCapitalGainsTax(input: z.infer<typeof capitalGainsInputSchema>) {
+  const { year, rules, warning } = getRules(input.taxYear ?? (input.disposalDate && getTaxYearForDate(input.disposalDate)));
+  if (!rules) {
+    throw new z.ZodError([{
+      code: 'custom',
+      path: ['disposalDate'],
+      message: `Supported tax years: ${SUPPORTED_TAX_YEARS.join(', ')}`,
+    }]);
+  }
+
+  // Without a disposal date, the latest rates in the year apply
+  const rates = input.disposalDate
+    ? findEffective(rules.capitalGains.rates, input.disposalDate) ?? rules.capitalGains.rates[0]
+    : rules.capitalGains.rates[rules.capitalGains.rates.length - 1];
+
+  const netGains = Math.max(input.gains - input.losses, 0);
+  const annualExemptAmount = Math.min(rules.capitalGains.annualExemptAmount, netGains);
+  const taxableGain = netGains - annualExemptAmount;
+
+  const taxableIncome = Math.max(input.annualIncome - getPersonalAllowance(input.annualIncome, rules), 0);
+  const basicBandLeft = Math.max(rules.bands[0].upTo - taxableIncome, 0);
+  const atBasicRate = Math.min(taxableGain, basicBandLeft);
+  const atHigherRate = taxableGain - atBasicRate;
+
+  const residential = input.assetType === 'residential';
+  const basicRate = residential ? rates.residentialBasic : rates.basic;
+  const higherRate = residential ? rates.residentialHigher : rates.higher;
+  const basicTax = roundPence(atBasicRate * basicRate);
+  const higherTax = roundPence(atHigherRate * higherRate);
+
+  return {
+    taxYear: year,
+    netGains,
+    annualExemptAmount,
+    taxableGain,
+    breakdown: [
+      { band: 'basic', amount: atBasicRate, rate: basicRate, tax: basicTax },
+      { band: 'higher', amount: atHigherRate, rate: higherRate, tax: higherTax },
+    ].filter(line => line.amount > 0),
+    totalTax: roundPence(basicTax + higherTax),
+    warning,
+  };
+}
+
+const stampDutyInputSchema = z.object({
+  price: money,
+  completionDate: z.coerce.date().optional(),
+  firstTimeBuyer: z.boolean().default(false),
+  additionalProperty: z.boolean().default(false),
+  nonResident: z.boolean().default(false),
+});
+
+// Additional dwellings surcharge doesn't apply below this price
+const ADDITIONAL_PROPERTY_MIN_PRICE = 40000;
+
+function calculateStampDuty(input: z.infer<typeof stampDutyInputSchema>) {
+  const completionDate = input.completionDate ?? new Date();
+  const rules = findEffective(STAMP_DUTY_RULES, completionDate);
+  if (!rules) {
+    throw new z.ZodError([{
+      code: 'custom',
+      path: ['completionDate'],
+      message: `Stamp duty rates are only available from ${STAMP_DUTY_RULES[0].from}`,
+    }]);
+  }
+
+  const firstTimeBuyerRelief = input.firstTimeBuyer && !input.additionalProperty && input.price <= rules.firstTimeBuyerMaxPrice;
+  const bands: StampDutyBand[] = firstTimeBuyerRelief ? rules.firstTimeBuyerBands : rules.bands;
+
+  const surcharge =
+    (input.additionalProperty && input.price >= ADDITIONAL_PROPERTY_MIN_PRICE ? rules.additionalPropertySurcharge : 0) +
+    (input.nonResident ? rules.nonResidentSurcharge : 0);
+
+  const breakdown: { from: number; to: number; rate: number; tax: number }[] = [];
+  let lower = 0;
+  for (const band of bands) {
+    if (input.price <= lower) {
+      break;
+    }
+    const portion = Math.min(input.price, band.upTo) - lower;
+    const rate = band.rate + surcharge;
+    breakdown.push({ from: lower, to: Math.min(input.price, band.upTo), rate, tax: roundPence(portion * rate) });
+    lower = band.upTo;
+  }
+
+  const totalTax = roundPence(breakdown.reduce((sum, line) => sum + line.tax, 0));
+
+  return {
+    ratesFrom: rules.from,
+    firstTimeBuyerRelief,
+    surcharge,
+    breakdown,
+    totalTax,
+    effectiveRate: input.price > 0 ? roundPence(totalTax / input.price * 100) / 100 : 0,
+  };
+}
+
+export interface TaxCalculator {
+  name: string;
+  description: string;
+  // JSON schema of the input, given to the model as the tool's parameters
+  parameters: Record<string, unknown>;
+  run(input: unknown): unknown;
+}
+
+function defineCalculator<T extends z.ZodTypeAny>(
+  definition: Omit<TaxCalculator, 'run'> & { schema: T; calculate: (input: z.infer<T>) => unknown }
+): TaxCalculator {
+  const { schema, calculate, ...rest } = definition;
+  return { ...rest, run: input => calculate(schema.parse(input)) };
+}
+
+export const TAX_CALCULATORS: TaxCalculator[] = [
+  defineCalculator({
+    name: 'income-tax',
+    description: 'UK income tax for a tax year (England, Wales and Northern Ireland rates), including the personal allowance taper, starting rate for savings, personal savings allowance and dividend allowance.',
+    schema: incomeTaxInputSchema,
+    calculate: calculateIncomeTax,
+    parameters: {
+      type: 'object',
+      properties: {
+        taxYear: TAX_YEAR_PARAMETER,
+        nonSavingsIncome: { type: 'number', description: 'Employment, self-employment, pension and property income in GBP' },
+        savingsIncome: { type: 'number', description: 'Interest in GBP' },
+        dividendIncome: { type: 'number', description: 'Dividends in GBP' },
+      },
+    },
+  }),
+  defineCalculator({
+    name: 'national-insurance',
+    description: 'Annual UK National Insurance: Class 1 employee contributions on employment earnings and Class 4 on self-employed profits.',
+    schema: nationalInsuranceInputSchema,
+    calculate: calculateNationalInsurance,
+    parameters: {
+      type: 'object',
+      properties: {
+        taxYear: TAX_YEAR_PARAMETER,
+        employmentEarnings: { type: 'number', description: 'Annual gross employment earnings in GBP' },
+        selfEmploymentProfits: { type: 'number', description: 'Annual self-employed profits in GBP' },
+      },
+    },
+  }),
+  defineCalculator({
+    name: 'capital-gains-tax',
+    description: 'UK Capital Gains Tax for an individual after the annual exempt amount, using the basic rate band left after other income.',
+    schema: capitalGainsInputSchema,
+    calculate: calculateCapitalGainsTax,
+    parameters: {
+      type: 'object',
+      properties: {
+        taxYear: TAX_YEAR_PARAMETER,
+        gains: { type: 'number', description: 'Total chargeable gains in the year in GBP' },
+        losses: { type: 'number', description: 'Allowable losses to set against the gains in GBP' },
+        annualIncome: { type: 'number', description: 'Total taxable income before the personal allowance in GBP' },
+        assetType: { type: 'string', enum: ['residential', 'other'], description: 'Residential property or other assets' },
+        disposalDate: { type: 'string', format: 'date', description: 'Date of disposal (YYYY-MM-DD), needed when rates changed mid-year' },
+      },
+      required: ['gains'],
+    },
+  }),
+  defineCalculator({
+    name: 'stamp-duty',
+    description: 'Stamp Duty Land Tax on a residential purchase in England or Northern Ireland, including first-time buyer relief and the additional property and non-resident surcharges.',
+    schema: stampDutyInputSchema,
+    calculate: calculateStampDuty,
+    parameters: {
+      type: 'object',
+      properties: {
+        price: { type: 'number', description: 'Purchase price in GBP' },
+        completionDate: { type: 'string', format: 'date', description: 'Completion date (YYYY-MM-DD), defaults to today' },
+        firstTimeBuyer: { type: 'boolean' },
+        additionalProperty: { type: 'boolean', description: 'Buying a second home or buy-to-let' },
+        nonResident: { type: 'boolean', description: 'Buyer is not UK resident' },
+      },
+      required: ['price'],
+    },
+  }),
+];
+
+export function getTaxCalculator(name: string): TaxCalculator | undefined {
+  return TAX_CALCULATORS.find(calculator => calculator.name === name);
+}
@@ -0,0 +1,203 @@
+// UK tax parameters by tax year (6 April to 5 April). Income tax figures are for
+// England, Wales and Northern Ireland; Scottish rates on non-savings income are
+// not covered. Adding a year means adding an entry here; the calculators in
+// taxCalculators.ts read everything from these tables.
+
+export interface IncomeTaxBand {
+  name: 'basic' | 'higher' | 'additional';
+  // Upper limit of the band in taxable income (after the personal allowance)
+  upTo: number;
+  rate: number;
+  dividendRate: number;
+}
+
+export interface CapitalGainsRates {
+  // Disposals on or after this date use these rates
+  from: string;
+  basic: number;
+  higher: number;
+  residentialBasic: number;
+  residentialHigher: number;
+}
+
+export interface TaxYearRules {
+  personalAllowance: number;
+  // Allowance falls by £1 for every £2 of adjusted net income above this
+  personalAllowanceTaperThreshold: number;
+  bands: IncomeTaxBand[];
+  startingRateForSavingsLimit: number;
+  personalSavingsAllowance: { basic: number; higher: number; additional: number };
+  dividendAllowance: number;
+  nationalInsurance: {
+    // Class 1 employee (primary) contributions on annual earnings
+    class1PrimaryThreshold: number;
+    class1UpperEarningsLimit: number;
+    class1MainRate: number;
+    class1UpperRate: number;
+    // Class 4 on self-employed profits
+    class4LowerProfitsLimit: number;
+    class4UpperProfitsLimit: number;
+    class4MainRate: number;
+    class4UpperRate: number;
+  };
+  capitalGains: {
+    annualExemptAmount: number;
+    rates: CapitalGainsRates[];
+  };
+}
+
+const STANDARD_BANDS: IncomeTaxBand[] = [
+  { name: 'basic', upTo: 37700, rate: 0.2, dividendRate: 0.0875 },
+  { name: 'higher', upTo: 125140, rate: 0.4, dividendRate: 0.3375 },
+  { name: 'additional', upTo: Infinity, rate: 0.45, dividendRate: 0.3935 },
+];
+
+export const TAX_YEARS: Record<string, TaxYearRules> = {
+  '2024-25': {
+    personalAllowance: 12570,
+    personalAllowanceTaperThreshold: 100000,
+    bands: STANDARD_BANDS,
+    startingRateForSavingsLimit: 5000,
+    personalSavingsAllowance: { basic: 1000, higher: 500, additional: 0 },
+    dividendAllowance: 500,
+    nationalInsurance: {
+      class1PrimaryThreshold: 12570,
+      class1UpperEarningsLimit: 50270,
+      class1MainRate: 0.08,
+      class1UpperRate: 0.02,
+      class4LowerProfitsLimit: 12570,
+      class4UpperProfitsLimit: 50270,
+      class4MainRate: 0.06,
+      class4UpperRate: 0.02,
+    },
+    capitalGains: {
+      annualExemptAmount: 3000,
+      rates: [
+        { from: '2024-04-06', basic: 0.1, higher: 0.2, residentialBasic: 0.18, residentialHigher: 0.24 },
+        { from: '2024-10-30', basic: 0.18, higher: 0.24, residentialBasic: 0.18, residentialHigher: 0.24 },
+      ],
+    },
+  },
+  '2025-26': {
+    personalAllowance: 12570,
+    personalAllowanceTaperThreshold: 100000,
+    bands: STANDARD_BANDS,
+    startingRateForSavingsLimit: 5000,
+    personalSavingsAllowance: { basic: 1000, higher: 500, additional: 0 },
+    dividendAllowance: 500,
+    nationalInsurance: {
+      class1PrimaryThreshold: 12570,
+      class1UpperEarningsLimit: 50270,
+      class1MainRate: 0.08,
+      class1UpperRate: 0.02,
+      class4LowerProfitsLimit: 12570,
+      class4UpperProfitsLimit: 50270,
+      class4MainRate: 0.06,
+      class4UpperRate: 0.02,
+    },
+    capitalGains: {
+      annualExemptAmount: 3000,
+      rates: [
+        { from: '2025-04-06', basic: 0.18, higher: 0.24, residentialBasic: 0.18, residentialHigher: 0.24 },
+      ],
+    },
+  },
+};
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TAX_YEARS);
+
+// "2025-26" for any date from 6 April 2025 to 5 April 2026
+export function getTaxYearForDate(date: Date = new Date()): string {
+  const year = date.getUTCFullYear();
+  const beforeSixthApril = date.getUTCMonth() < 3 || (date.getUTCMonth() === 3 && date.getUTCDate() < 6);
+  const startYear = beforeSixthApril ? year - 1 : year;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+// The current tax year, or the latest one we have figures for (calculators
+// add a warning when it isn't the current one)
+export function getDefaultTaxYear(): string {
+  const current = getTaxYearForDate();
+  return TAX_YEARS[current] ? current : SUPPORTED_TAX_YEARS[SUPPORTED_TAX_YEARS.length - 1];
+}
+
+export interface StampDutyBand {
+  upTo: number;
+  rate: number;
+}
+
+// SDLT on residential property in England and Northern Ireland. Rates depend on
+// the completion date rather than the tax year.
+export interface StampDutyRules {
+  from: string;
+  bands: StampDutyBand[];
+  firstTimeBuyerBands: StampDutyBand[];
+  // First-time buyer relief is lost entirely above this price
+  firstTimeBuyerMaxPrice: number;
+  additionalPropertySurcharge: number;
+  nonResidentSurcharge: number;
+}
+
+export const STAMP_DUTY_RULES: StampDutyRules[] = [
+  {
+    from: '2022-09-23',
+    bands: [
+      { upTo: 250000, rate: 0 },
+      { upTo: 925000, rate: 0.05 },
+      { upTo: 1500000, rate: 0.1 },
+      { upTo: Infinity, rate: 0.12 },
+    ],
+    firstTimeBuyerBands: [
+      { upTo: 425000, rate: 0 },
+      { upTo: 625000, rate: 0.05 },
+    ],
+    firstTimeBuyerMaxPrice: 625000,
+    additionalPropertySurcharge: 0.03,
+    nonResidentSurcharge: 0.02,
+  },
+  {
+    from: '2024-10-31',
+    bands: [
+      { upTo: 250000, rate: 0 },
+      { upTo: 925000, rate: 0.05 },
+      { upTo: 1500000, rate: 0.1 },
+      { upTo: Infinity, rate: 0.12 },
+    ],
+    firstTimeBuyerBands: [
+      { upTo: 425000, rate: 0 },
+      { upTo: 625000, rate: 0.05 },
+    ],
+    firstTimeBuyerMaxPrice: 625000,
+    additionalPropertySurcharge: 0.05,
+    nonResidentSurcharge: 0.02,
+  },
+  {
+    from: '2025-04-01',
+    bands: [
+      { upTo: 125000, rate: 0 },
+      { upTo: 250000, rate: 0.02 },
+      { upTo: 925000, rate: 0.05 },
+      { upTo: 1500000, rate: 0.1 },
+      { upTo: Infinity, rate: 0.12 },
+    ],
+    firstTimeBuyerBands: [
+      { upTo: 300000, rate: 0 },
+      { upTo: 500000, rate: 0.05 },
+    ],
+    firstTimeBuyerMaxPrice: 500000,
+    additionalPropertySurcharge: 0.05,
+    nonResidentSurcharge: 0.02,
+  },
+];
+
+// Latest entry in an effective-dated list that applies on the given date
+export function findEffective<T extends { from: string }>(entries: T[], date: Date): T | undefined {
+  const day = date.toISOString().slice(0, 10);
+  let match: T | undefined;
+  for (const entry of entries) {
+    if (entry.from <= day && (!match || entry.from > match.from)) {
+      match = entry;
+    }
+  }
+  return match;
+}
@@ -0,0 +1,20 @@
+import { countTokens } from "gpt-tokenizer/encoding/o200k_base";
+
+// Fallback token counting for providers that don't report usage.
+// Uses the o200k BPE vocabulary, which is exact for current OpenAI models and a
+// close approximation for Llama.
+
+// Per-message framing tokens added by the chat format, plus the tokens that prime the reply
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+export function estimateTokenCount(text: string): number {
+  return countTokens(text);
+}
+
+export function estimateChatTokens(messages: { role: string; content: string }[]): number {
+  return messages.reduce(
+    (total, message) => total + TOKENS_PER_MESSAGE + countTokens(message.role) + countTokens(message.content),
+    TOKENS_PER_REPLY
+  );
+}
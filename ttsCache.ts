@@ -0,0 +1,211 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+
+// Content-addressed cache of synthesized speech. Keys are a hash of the
+// normalized text plus every parameter that changes the audio, so identical
+// requests are only paid for once. Entries live as files in TTS_CACHE_DIR and
+// are evicted least-recently-used once the cache exceeds its size limit, or
+// when they are older than the TTL.
+
+const CACHE_KEY_VERSION = 3;
+const FILE_EXTENSION = '.audio';
+
+export interface TTSCacheParams {
+  provider: string;
+  text: string;
+  voice: string;
+  speed: number;
+  model: string;
+  format: string;
+}
+
+export function normalizeTTSText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function getTTSCacheKey(params: TTSCacheParams): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      v: CACHE_KEY_VERSION,
+      provider: params.provider,
+      model: params.model,
+      voice: params.voice,
+      speed: params.speed,
+      format: params.format,
+      text: normalizeTTSText(params.text),
+    }))
+    .digest('hex');
+}
+
+interface CacheEntry {
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export class FileTTSCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private totalBytes = 0;
+  private ready: Promise<void>;
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxBytes: number,
+    private readonly ttlMs: number
+  ) {
+    this.ready = this.load().catch(err => {
+      console.error('Failed to load TTS cache index:', err);
+    });
+
+    setInterval(() => {
+      this.removeExpired().catch(err => console.error('Failed to sweep TTS cache:', err));
+    }, 10 * 60000);
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${key}${FILE_EXTENSION}`);
+  }
+
+  // Rebuilds the index from disk so the cache survives restarts
+  private async load(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    for (const name of await readdir(this.dir)) {
+      if (!name.endsWith(FILE_EXTENSION)) {
+        continue;
+      }
+      const info = await stat(path.join(this.dir, name));
+      this.entries.set(name.slice(0, -FILE_EXTENSION.length), {
+        size: info.size,
+        createdAt: info.mtimeMs,
+        lastAccess: info.atimeMs,
+      });
+      this.totalBytes += info.size;
+    }
+    await this.evict();
+  }
+
+  private async remove(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+    await unlink(this.filePath(key)).catch(() => undefined);
+  }
+
+  private async removeExpired(): Promise<void> {
+    const cutoff = Date.now() - this.ttlMs;
+    const entries = Array.from(this.entries.entries());
+    for (const [key, entry] of entries) {
+      if (entry.createdAt < cutoff) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  private async evict(): Promise<void> {
+    await this.removeExpired();
+    if (this.totalBytes <= this.maxBytes) {
+      return;
+    }
+
+    const byLastAccess = Array.from(this.entries.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [key] of byLastAccess) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      await this.remove(key);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    await this.ready;
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.createdAt < Date.now() - this.ttlMs) {
+      await this.remove(key);
+      return undefined;
+    }
+
+    try {
+      const audio = await readFile(this.filePath(key));
+      entry.lastAccess = Date.now();
+      return audio;
+    } catch {
+      // File removed behind our back
+      await this.remove(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, audio: Buffer): Promise<void> {
+    await this.ready;
+    if (audio.length > this.maxBytes) {
+      return;
+    }
+
+    // Write then rename so a crash never leaves a truncated entry
+    const tmpPath = `${this.filePath(key)}.${process.pid}.tmp`;
+    await writeFile(tmpPath, audio);
+    await rename(tmpPath, this.filePath(key));
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.totalBytes -= existing.size;
+    }
+    const now = Date.now();
+    this.entries.set(key, { size: audio.length, createdAt: now, lastAccess: now });
+    this.totalBytes += audio.length;
+
+    await this.evict();
+  }
+}
+
+let cache: FileTTSCache | null | undefined;
+
+export function getTTSCache(): FileTTSCache | null {
+  if (cache === undefined) {
+    cache = process.env.TTS_CACHE_ENABLED === 'false'
+      ? null
+      : new FileTTSCache(
+          path.resolve(process.env.TTS_CACHE_DIR || 'data/tts-cache'),
+          parseInt(process.env.TTS_CACHE_MAX_MB || '500', 10) * 1024 * 1024,
+          parseInt(process.env.TTS_CACHE_TTL_DAYS || '30', 10) * 24 * 60 * 60 * 1000
+        );
+  }
+  return cache;
+}
+
+export interface CachedTTSResult {
+  audio: Buffer;
+  key: string;
+  cacheHit: boolean;
+}
+
+// Returns cached audio for the params, or generates, stores and returns it
+export async function getOrGenerateTTSAudio(
+  params: TTSCacheParams,
+  generate: () => Promise<Buffer>
+): Promise<CachedTTSResult> {
+  const key = getTTSCacheKey(params);
+  const ttsCache = getTTSCache();
+
+  const cached = await ttsCache?.get(key).catch((err: any) => {
+    console.error('TTS cache read failed:', err);
+    return undefined;
+  });
+  if (cached) {
+    return { audio: cached, key, cacheHit: true };
+  }
+
+  const audio = await generate();
+  ttsCache?.set(key, audio).catch((err: any) => {
+    console.error('TTS cache write failed:', err);
+  });
+  return { audio, key, cacheHit: false };
+}
@@ -0,0 +1,99 @@
+import {
+  generateTTSAudio,
+  isTTSConfigured,
+  TTS_MAX_CHARACTERS,
+  TTS_MODEL,
+  TTS_MODELS,
+  TTS_VOICES,
+  type TTSModel,
+  type TTSResponseFormat,
+  type TTSVoice,
+} from "./openai";
+
+// Registry of text-to-speech engines. The default comes from TTS_PROVIDER and
+// requests may pick another by name. Providers produce raw formats (mp3, opus or
+// 24kHz 16-bit mono PCM); WAV output is framed from PCM in ttsStream.ts.
+
+export interface TTSSynthesisOptions {
+  voice: string;
+  speed: number;
+  model: string;
+  format: TTSResponseFormat;
+}
+
+export interface TTSProvider {
+  name: string;
+  description: string;
+  models: readonly string[];
+  defaultModel: string;
+  voices: readonly string[];
+  defaultVoice: string;
+  formats: readonly TTSResponseFormat[];
+  // Longest text a single synthesize call accepts
+  maxCharacters: number;
+  isConfigured(): boolean;
+  synthesize(text: string, options: TTSSynthesisOptions): Promise<Buffer>;
+}
+
+const openAIProvider: TTSProvider = {
+  name: 'openai',
+  description: 'OpenAI speech (tts-1 / tts-1-hd)',
+  models: TTS_MODELS,
+  defaultModel: TTS_MODEL,
+  voices: TTS_VOICES,
+  defaultVoice: 'nova',
+  formats: ['mp3', 'opus', 'pcm'],
+  maxCharacters: TTS_MAX_CHARACTERS,
+  isConfigured: isTTSConfigured,
+  synthesize: (text, options) => generateTTSAudio(
+    text,
+    options.voice as TTSVoice,
+    options.speed,
+    options.model as TTSModel,
+    options.format
+  ),
+};
+
+// Roughly how fast the silent stand-in "speaks", so clips have a plausible length
+const LOCAL_CHARACTERS_PER_SECOND = 15;
+const LOCAL_SAMPLE_RATE = 24000;
+
+// Offline stand-in that needs no network or credentials: returns silence of
+// about the length real speech would take. Useful for development and tests.
+const localProvider: TTSProvider = {
+  name: 'local',
+  description: 'Offline stand-in producing silent audio (development and testing)',
+  models: ['local-silence'],
+  defaultModel: 'local-silence',
+  voices: ['silent'],
+  defaultVoice: 'silent',
+  formats: ['pcm'],
+  maxCharacters: TTS_MAX_CHARACTERS,
+  isConfigured: () => true,
+  synthesize: async (text, options) => {
+    const seconds = Math.max(text.length / LOCAL_CHARACTERS_PER_SECOND / options.speed, 0.1);
+    // 16-bit samples, zero-filled
+    return Buffer.alloc(Math.round(seconds * LOCAL_SAMPLE_RATE) * 2);
+  },
+};
+
+const providers: Map<string, TTSProvider> = new Map();
+
+export function registerTTSProvider(provider: TTSProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerTTSProvider(openAIProvider);
+registerTTSProvider(localProvider);
+
+export function getDefaultTTSProviderName(): string {
+  return process.env.TTS_PROVIDER || 'openai';
+}
+
+export function getTTSProvider(name: string = getDefaultTTSProviderName()): TTSProvider | undefined {
+  return providers.get(name);
+}
+
+export function listTTSProviders(): TTSProvider[] {
+  return Array.from(providers.values());
+}
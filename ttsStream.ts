@@ -0,0 +1,129 @@
+// Helpers for voicing text longer than a single TTS request allows: the text is
+// split on sentence boundaries, chunks are synthesized a few at a time, and the
+// audio is yielded in order so it can be streamed as soon as the first chunk is ready.
+
+export const AUDIO_FORMATS = ['mp3', 'opus', 'wav'] as const;
+export type AudioFormat = typeof AUDIO_FORMATS[number];
+
+export const AUDIO_CONTENT_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg',
+  wav: 'audio/wav',
+};
+
+// Output formats a provider can serve, given the raw formats it produces
+export function getSupportedFormats(providerFormats: readonly string[]): AudioFormat[] {
+  return AUDIO_FORMATS.filter(format => providerFormats.includes(getUpstreamFormat(format)));
+}
+
+// WAV can't be concatenated, so it is built from raw PCM (24kHz, 16-bit, mono)
+// with a single header; MP3 frames and chained Ogg streams concatenate as-is
+export function getUpstreamFormat(format: AudioFormat): 'mp3' | 'opus' | 'pcm' {
+  return format === 'wav' ? 'pcm' : format;
+}
+
+const PCM_SAMPLE_RATE = 24000;
+const PCM_CHANNELS = 1;
+const PCM_BITS_PER_SAMPLE = 16;
+
+// Keep the first chunk short so playback can start quickly
+const FIRST_CHUNK_MAX_CHARS = 300;
+const CHUNK_TARGET_CHARS = 1000;
+
+// When dataBytes is unknown (streaming) the sizes are set to the maximum, which
+// players treat as "read until end of stream"
+export function createWavHeader(dataBytes?: number): Buffer {
+  const header = Buffer.alloc(44);
+  const byteRate = PCM_SAMPLE_RATE * PCM_CHANNELS * PCM_BITS_PER_SAMPLE / 8;
+  const dataSize = dataBytes ?? 0xFFFFFFFF - 36;
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(Math.min(dataSize + 36, 0xFFFFFFFF), 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(PCM_CHANNELS, 22);
+  header.writeUInt32LE(PCM_SAMPLE_RATE, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(PCM_CHANNELS * PCM_BITS_PER_SAMPLE / 8, 32);
+  header.writeUInt16LE(PCM_BITS_PER_SAMPLE, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataSize, 40);
+  return header;
+}
+
+// Splits a sentence that is too long on its own at word boundaries
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  for (const word of sentence.split(/(\s+)/)) {
+    if ((current + word).length > maxChars && current.trim()) {
+      parts.push(current.trim());
+      current = '';
+    }
+    // A single "word" longer than the limit has to be cut
+    let remaining = word;
+    while (remaining.length > maxChars) {
+      parts.push(remaining.slice(0, maxChars));
+      remaining = remaining.slice(maxChars);
+    }
+    current += remaining;
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+export function splitTextForSpeech(text: string, maxChars: number): string[] {
+  const segmenter = new Intl.Segmenter('en-GB', { granularity: 'sentence' });
+  const sentenceLimit = Math.min(CHUNK_TARGET_CHARS, maxChars);
+  const sentences = Array.from(segmenter.segment(text), s => s.segment)
+    .flatMap(sentence => sentence.length > sentenceLimit ? splitLongSentence(sentence, sentenceLimit) : [sentence]);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    const limit = Math.min(chunks.length === 0 ? FIRST_CHUNK_MAX_CHARS : CHUNK_TARGET_CHARS, maxChars);
+    if (current && (current + sentence).length > limit) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks;
+}
+
+// Runs up to `concurrency` syntheses at once and yields results in chunk order
+export async function* synthesizeInOrder<T>(
+  chunks: string[],
+  concurrency: number,
+  synthesize: (chunk: string) => Promise<T>
+): AsyncGenerator<T> {
+  const pending: Promise<T>[] = [];
+  let next = 0;
+
+  const launch = () => {
+    while (pending.length < concurrency && next < chunks.length) {
+      const promise = synthesize(chunks[next++]);
+      // Rejections are surfaced when the promise is awaited below
+      promise.catch(() => undefined);
+      pending.push(promise);
+    }
+  };
+
+  launch();
+  while (pending.length > 0) {
+    const result = await pending.shift()!;
+    launch();
+    yield result;
+  }
+}
@@ -0,0 +1,284 @@
+import { EventEmitter } from "events";
+import { mkdir, readFile, writeFile, unlink } from "fs/promises";
+import { randomUUID } from "crypto";
+import path from "path";
+import { storage } from "./storage";
+import { getTTSProvider, getDefaultTTSProviderName } from "./ttsProviders";
+import { getOrGenerateTTSAudio } from "./ttsCache";
+import { createWavHeader } from "./ttsStream";
+import { trackTTSRequest, trackVideoRequest, trackFailedRequest } from "./analytics";
+import { type VideoJob, type VideoJobStatus } from "./schema";
+import { hashIp } from "./privacy";
+
+// Lip-sync video generation as background jobs.
+//
+// Jobs are persisted in video_jobs and processed by an in-process queue that
+// posts the audio to the Wav2Lip Flask worker:
+//   POST {WAV2LIP_URL}/generate  (multipart: avatar_id, audio)
+//   -> 200 video/mp4 body, optional X-Duration-Seconds header
+// Unfinished jobs are picked up again when the server restarts.
+
+const WAV2LIP_MODEL = 'wav2lip';
+
+function getConfig() {
+  return {
+    url: process.env.WAV2LIP_URL,
+    timeoutMs: parseInt(process.env.WAV2LIP_TIMEOUT_MS || '180000', 10),
+    concurrency: parseInt(process.env.WAV2LIP_CONCURRENCY || '1', 10),
+    storageDir: path.resolve(process.env.WAV2LIP_STORAGE_DIR || 'data/wav2lip'),
+  };
+}
+
+// Uploaded audio formats, with the extension the file is saved and sent under
+export const WAV2LIP_AUDIO_TYPES: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+};
+
+export function isWav2LipConfigured(): boolean {
+  return !!process.env.WAV2LIP_URL;
+}
+
+// Emits "<jobId>" with the updated VideoJob whenever a job changes status
+export const videoJobEvents = new EventEmitter();
+videoJobEvents.setMaxListeners(0);
+
+const queue: string[] = [];
+let running = 0;
+
+export function isTerminalStatus(status: string): boolean {
+  return status === 'completed' || status === 'failed';
+}
+
+async function setStatus(
+  id: string,
+  status: VideoJobStatus,
+  update: { videoPath?: string; error?: string } = {}
+): Promise<VideoJob | undefined> {
+  const job = await storage.updateVideoJob(id, {
+    status,
+    ...update,
+    completedAt: isTerminalStatus(status) ? new Date() : undefined,
+  });
+  if (job) {
+    videoJobEvents.emit(id, job);
+  }
+  return job;
+}
+
+// Uploaded audio is only needed until the job finishes, whether or not it succeeds
+async function removeUploadedAudio(job: VideoJob): Promise<void> {
+  if (job.audioPath) {
+    await unlink(job.audioPath).catch(() => undefined);
+  }
+}
+
+async function runJob(job: VideoJob): Promise<void> {
+  const config = getConfig();
+  const startTime = Date.now();
+
+  if (!config.url) {
+    throw new Error('Wav2Lip service is not configured. Please set WAV2LIP_URL.');
+  }
+
+  let audio: Buffer;
+  let audioType = 'audio/mpeg';
+  let audioName = 'audio.mp3';
+
+  if (job.audioPath) {
+    audio = await readFile(job.audioPath);
+    // Jobs from before the type was stored were always MP3
+    audioType = job.audioType || audioType;
+    audioName = `audio${path.extname(job.audioPath) || '.mp3'}`;
+  } else if (job.text) {
+    const provider = getTTSProvider();
+    if (!provider) {
+      throw new Error(`TTS provider "${getDefaultTTSProviderName()}" is not registered`);
+    }
+
+    const ttsStart = Date.now();
+    const text = job.text;
+    const voice = job.voice && provider.voices.includes(job.voice) ? job.voice : provider.defaultVoice;
+    const model = provider.defaultModel;
+    const format = provider.formats.includes('mp3') ? 'mp3' : 'pcm';
+
+    const result = await getOrGenerateTTSAudio(
+      { provider: provider.name, text, voice, speed: 1.0, model, format },
+      () => provider.synthesize(text, { voice, speed: 1.0, model, format })
+    );
+
+    if (format === 'pcm') {
+      audio = Buffer.concat([createWavHeader(result.audio.length), result.audio]);
+      audioType = 'audio/wav';
+      audioName = 'audio.wav';
+    } else {
+      audio = result.audio;
+    }
+
+    trackTTSRequest({
+      ipAddress: job.ipAddress,
+      userId: job.userId ?? undefined,
+      characters: text.length,
+      provider: provider.name,
+      model,
+      duration: Date.now() - ttsStart,
+      cacheHit: result.cacheHit,
+    }).catch((err: any) => {
+      console.error('Failed to track TTS request:', err);
+    });
+  } else {
+    throw new Error('Job has neither text nor audio');
+  }
+
+  const form = new FormData();
+  form.append('avatar_id', job.avatarId);
+  form.append('audio', new Blob([audio], { type: audioType }), audioName);
+
+  const response = await fetch(`${config.url.replace(/\/$/, '')}/generate`, {
+    method: 'POST',
+    body: form,
+    signal: AbortSignal.timeout(config.timeoutMs),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`Wav2Lip worker responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+
+  const video = Buffer.from(await response.arrayBuffer());
+  const videoPath = path.join(config.storageDir, `${job.id}.mp4`);
+  await mkdir(config.storageDir, { recursive: true });
+  await writeFile(videoPath, video);
+  await removeUploadedAudio(job);
+
+  await setStatus(job.id, 'completed', { videoPath });
+
+  const reportedSeconds = parseFloat(response.headers.get('X-Duration-Seconds') || '');
+  trackVideoRequest({
+    ipAddress: job.ipAddress,
+    userId: job.userId ?? undefined,
+    seconds: Number.isFinite(reportedSeconds) ? reportedSeconds : null,
+    model: WAV2LIP_MODEL,
+    duration: Date.now() - startTime,
+  }).catch((err: any) => {
+    console.error('Failed to track video request:', err);
+  });
+}
+
+function drainQueue(): void {
+  const { concurrency } = getConfig();
+
+  while (running < concurrency && queue.length > 0) {
+    const id = queue.shift()!;
+    running++;
+
+    (async () => {
+      const job = await setStatus(id, 'processing');
+      if (!job) {
+        return;
+      }
+      console.log(`[Wav2Lip] Processing job ${id}`);
+      try {
+        await runJob(job);
+        console.log(`[Wav2Lip] Job ${id} completed`);
+      } catch (error: any) {
+        console.error(`[Wav2Lip] Job ${id} failed:`, error);
+        const message = error.name === 'TimeoutError'
+          ? 'Video generation timed out'
+          : error.message || 'Video generation failed';
+        await setStatus(id, 'failed', { error: message });
+        await removeUploadedAudio(job);
+        trackFailedRequest('video', error).catch((err: any) => {
+          console.error('Failed to track failed request:', err);
+        });
+      }
+    })()
+      .catch((err: any) => console.error(`[Wav2Lip] Failed to update job ${id}:`, err))
+      .finally(() => {
+        running--;
+        drainQueue();
+      });
+  }
+}
+
+export interface SubmitVideoJob {
+  avatarId: string;
+  ipAddress: string;
+  userId?: string;
+  text?: string;
+  voice?: string;
+  audio?: Buffer;
+  // One of WAV2LIP_AUDIO_TYPES
+  audioType?: string;
+}
+
+export async function submitVideoJob(submission: SubmitVideoJob): Promise<VideoJob> {
+  let audioPath: string | undefined;
+
+  if (submission.audio) {
+    const { storageDir } = getConfig();
+    await mkdir(path.join(storageDir, 'uploads'), { recursive: true });
+    const extension = WAV2LIP_AUDIO_TYPES[submission.audioType || 'audio/mpeg'] || 'mp3';
+    audioPath = path.join(storageDir, 'uploads', `${randomUUID()}.${extension}`);
+    await writeFile(audioPath, submission.audio);
+  }
+
+  let job: VideoJob;
+  try {
+    job = await storage.createVideoJob({
+      avatarId: submission.avatarId,
+      text: submission.text ?? null,
+      voice: submission.voice ?? null,
+      audioPath: audioPath ?? null,
+      audioType: audioPath ? submission.audioType || 'audio/mpeg' : null,
+      ipAddress: hashIp(submission.ipAddress),
+      userId: submission.userId ?? null,
+    });
+  } catch (error) {
+    if (audioPath) {
+      await unlink(audioPath).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  queue.push(job.id);
+  drainQueue();
+  return job;
+}
+
+// Re-queues jobs left unfinished by a previous process
+export async function resumeVideoJobs(): Promise<void> {
+  if (!isWav2LipConfigured()) {
+    return;
+  }
+
+  const jobs = await storage.getUnfinishedVideoJobs();
+  if (jobs.length > 0) {
+    console.log(`[Wav2Lip] Resuming ${jobs.length} unfinished job(s)`);
+  }
+  for (const job of jobs) {
+    queue.push(job.id);
+  }
+  drainQueue();
+}
+
+export function toPublicVideoJob(job: VideoJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    avatarId: job.avatarId,
+    error: job.error,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    videoUrl: job.status === 'completed' ? `/api/wav2lip/${job.id}/video` : null,
+  };
+}